@@ -1,110 +1,274 @@
-import { BrowserRouter as Router, Route, Routes, Link } from "react-router-dom";
+import {
+  createBrowserRouter,
+  Link,
+  Outlet,
+  RouterProvider,
+} from "react-router-dom";
 import { CreatePost } from "./pages/CreatePost";
 import PostPage from "./pages/PostPage";
 import HomeFeed from "./pages/HomeFeed";
 import EditPost from "./pages/EditPost";
+import PostHistory from "./pages/PostHistory";
+import Drafts from "./pages/Drafts";
+import Moderation from "./pages/Moderation";
+import Trash from "./pages/Trash";
+import Saved from "./pages/Saved";
+import Settings from "./pages/Settings";
+import Search from "./pages/Search";
+import UserProfile from "./pages/UserProfile";
+import Notifications from "./pages/Notifications";
+import Fixtures from "./pages/Fixtures";
+import { IdentityProvider } from "./context/IdentityProvider";
+import { NotificationsProvider } from "./context/NotificationsProvider";
+import { PreferencesProvider } from "./context/PreferencesProvider";
+import { ToastProvider } from "./context/ToastProvider";
+import { NotificationBell } from "./components/NotificationBell";
+import { PreferencesPanel } from "./components/PreferencesPanel";
 import "./App.css";
 
-function App() {
+// Navigation and footer shared by every page
+function Layout() {
   return (
-    <Router>
-      <div className="min-h-screen border-red-600">
-        <nav className="bg-red-600 shadow-lg border-b-4 border-red-600">
-          <div className="max-w-6xl mx-auto px-4 py-4">
-            <div className="flex items-center justify-between">
-              <Link to="/" className="flex items-center space-x-3">
-                <img
-                  src="https://upload.wikimedia.org/wikipedia/en/thumb/7/7a/Manchester_United_FC_crest.svg/1200px-Manchester_United_FC_crest.svg.png"
-                  alt="logo"
-                  className="w-12"
-                />
-                <div>
-                  <h1 className="text-2xl font-bold text-white">
-                    Manchester United Hub
-                  </h1>
-                </div>
+    <div className="min-h-screen border-brand-600">
+      <nav className="bg-brand-600 shadow-lg border-b-4 border-brand-600">
+        <div className="max-w-6xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <Link to="/" className="flex items-center space-x-3">
+              <img
+                src="https://upload.wikimedia.org/wikipedia/en/thumb/7/7a/Manchester_United_FC_crest.svg/1200px-Manchester_United_FC_crest.svg.png"
+                alt="logo"
+                className="w-12"
+              />
+              <div>
+                <h1 className="text-2xl font-bold text-white">
+                  Manchester United Hub
+                </h1>
+              </div>
+            </Link>
+
+            <div className="flex items-center space-x-4">
+              <Link
+                to="/"
+                className="flex items-center bg-brand-500 hover:bg-brand-700 text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-md"
+              >
+                <svg
+                  className="w-5 h-5 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2H5a2 2 0 00-2-2z"
+                  />
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 5a2 2 0 012-2h4a2 2 0 012 2v2H8V5z"
+                  />
+                </svg>
+                Home Feed
               </Link>
 
-              <div className="flex items-center space-x-4">
-                <Link
-                  to="/"
-                  className="flex items-center bg-red-500 hover:bg-red-700 text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-md"
+              <Link
+                to="/create"
+                className="flex items-center bg-brand-500 hover:bg-brand-700 text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-md"
+              >
+                <svg
+                  className="w-5 h-5 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
                 >
-                  <svg
-                    className="w-5 h-5 mr-2"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2H5a2 2 0 00-2-2z"
-                    />
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M8 5a2 2 0 012-2h4a2 2 0 012 2v2H8V5z"
-                    />
-                  </svg>
-                  Home Feed
-                </Link>
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v16m8-8H4"
+                  />
+                </svg>
+                Create Post
+              </Link>
 
-                <Link
-                  to="/create"
-                  className="flex items-center bg-red-500 hover:bg-red-700 text-white px-6 py-2 rounded-lg font-medium transition-colors shadow-md"
+              <Link
+                to="/drafts"
+                className="flex items-center bg-brand-500 hover:bg-brand-700 text-white p-2 rounded-lg transition-colors shadow-md"
+                title="Drafts"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
                 >
-                  <svg
-                    className="w-5 h-5 mr-2"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 4v16m8-8H4"
-                    />
-                  </svg>
-                  Create Post
-                </Link>
-              </div>
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                  />
+                </svg>
+              </Link>
+
+              <Link
+                to="/fixtures"
+                className="flex items-center bg-brand-500 hover:bg-brand-700 text-white p-2 rounded-lg transition-colors shadow-md"
+                title="Fixtures"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                  />
+                </svg>
+              </Link>
+
+              <NotificationBell />
+
+              <Link
+                to="/saved"
+                className="flex items-center bg-brand-500 hover:bg-brand-700 text-white p-2 rounded-lg transition-colors shadow-md"
+                title="Saved posts"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+                  />
+                </svg>
+              </Link>
+
+              <Link
+                to="/trash"
+                className="flex items-center bg-brand-500 hover:bg-brand-700 text-white p-2 rounded-lg transition-colors shadow-md"
+                title="Trash"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </Link>
+
+              <PreferencesPanel />
+
+              <Link
+                to="/settings"
+                className="flex items-center bg-brand-500 hover:bg-brand-700 text-white p-2 rounded-lg transition-colors shadow-md"
+                title="Settings"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+                  />
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                  />
+                </svg>
+              </Link>
             </div>
           </div>
-        </nav>
+        </div>
+      </nav>
 
-        {/* Main Content */}
-        <main className="min-h-screen">
-          <Routes>
-            <Route path="/" element={<HomeFeed />} />
-            <Route path="/create" element={<CreatePost />} />
-            <Route path="/post/:id" element={<PostPage />} />
-            <Route path="/edit/:id" element={<EditPost />} />
-          </Routes>
-        </main>
+      {/* Main Content */}
+      <main className="min-h-screen">
+        <Outlet />
+      </main>
 
-        {/* Footer */}
-        <footer className="bg-white text-black mt-12 border-t-red-600 border">
-          <div className="max-w-6xl mx-auto px-4 py-8">
-            <div className="text-center">
-              <img
-                src="https://upload.wikimedia.org/wikipedia/en/thumb/7/7a/Manchester_United_FC_crest.svg/1200px-Manchester_United_FC_crest.svg.png"
-                alt="Manchester United Logo"
-                className="w-12 mx-auto"
-              />
-              <h3 className="text-xl font-bold mb-2">Manchester United Hub</h3>
-              <p className="text-black mb-4">
-                The Theatre of Dreams Community. Share your passion for the Red
-                Devils.
-              </p>
-            </div>
+      {/* Footer */}
+      <footer className="bg-surface text-gray-900 mt-12 border-t-brand-600 border">
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <div className="text-center">
+            <img
+              src="https://upload.wikimedia.org/wikipedia/en/thumb/7/7a/Manchester_United_FC_crest.svg/1200px-Manchester_United_FC_crest.svg.png"
+              alt="Manchester United Logo"
+              className="w-12 mx-auto"
+            />
+            <h3 className="text-xl font-bold mb-2">Manchester United Hub</h3>
+            <p className="text-gray-900 mb-4">
+              The Theatre of Dreams Community. Share your passion for the Red
+              Devils.
+            </p>
           </div>
-        </footer>
-      </div>
-    </Router>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+// A data router, which the post forms need to hold navigation away from
+// unsaved changes
+const router = createBrowserRouter([
+  {
+    element: <Layout />,
+    children: [
+      { path: "/", element: <HomeFeed /> },
+      { path: "/create", element: <CreatePost /> },
+      { path: "/post/:id", element: <PostPage /> },
+      { path: "/post/:id/comments/:commentId", element: <PostPage /> },
+      { path: "/post/:id/history", element: <PostHistory /> },
+      { path: "/edit/:id", element: <EditPost /> },
+      { path: "/drafts", element: <Drafts /> },
+      { path: "/saved", element: <Saved /> },
+      { path: "/fixtures", element: <Fixtures /> },
+      { path: "/notifications", element: <Notifications /> },
+      { path: "/trash", element: <Trash /> },
+      { path: "/search", element: <Search /> },
+      { path: "/user/:id", element: <UserProfile /> },
+      { path: "/settings", element: <Settings /> },
+      { path: "/mod", element: <Moderation /> },
+    ],
+  },
+]);
+
+function App() {
+  return (
+    <PreferencesProvider>
+      <IdentityProvider>
+        <NotificationsProvider>
+          <ToastProvider>
+            <RouterProvider router={router} />
+          </ToastProvider>
+        </NotificationsProvider>
+      </IdentityProvider>
+    </PreferencesProvider>
   );
 }
 
@@ -0,0 +1,175 @@
+import { createLocalBackend } from "./backends/local";
+import { supabaseBackend } from "./backends/supabase";
+import type {
+  Bookmark,
+  Comment,
+  DeletedPost,
+  Fixture,
+  ModerationAction,
+  ModerationItem,
+  ModerationLogEntry,
+  NewComment,
+  NewPost,
+  NewReport,
+  NotificationType,
+  Post,
+  PostChanges,
+  FlagMatch,
+  PostCursor,
+  PostFeedPage,
+  PostRevision,
+  PostSort,
+  PostVotes,
+  SearchResult,
+  TagCount,
+  UserComment,
+  UserNotification,
+  UserProfile,
+  VoteTarget,
+  VoteValue,
+} from "./types";
+
+export interface ListPostsOptions {
+  sortBy?: PostSort;
+  // Case-insensitive match against the title
+  search?: string;
+  // Posts need every one of these flags, or any of them with flagMatch "any"
+  flags?: string[];
+  flagMatch?: FlagMatch;
+  tag?: string;
+  // Only these posts, e.g. the reader's bookmarks
+  ids?: string[];
+  // Only posts by this identity
+  userId?: string;
+  // Only posts attached to this fixture
+  fixtureId?: string;
+  cursor?: PostCursor | null;
+  limit?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface PostSubscriptionHandlers {
+  // The post's score, comment count or content changed
+  onPost: (post: Post) => void;
+  // A comment was added, or an existing one was edited, deleted or voted on
+  onComment: (comment: Comment) => void;
+}
+
+// Stops a subscription
+export type Unsubscribe = () => void;
+
+// Everything the app needs from a data store. Implementations throw ApiError
+// for any failure.
+export interface Backend {
+  listPosts(options: ListPostsOptions): Promise<PostFeedPage>;
+  searchPosts(query: string, options: SearchOptions): Promise<SearchResult[]>;
+  listPopularTags(limit: number): Promise<TagCount[]>;
+  getPost(id: string): Promise<Post | null>;
+  listReferencingPosts(id: string): Promise<Post[]>;
+  createPost(post: NewPost): Promise<Post>;
+  updatePost(
+    id: string,
+    secretKey: string,
+    changes: PostChanges
+  ): Promise<void>;
+  // Moves the post to its author's trash
+  deletePost(id: string, secretKey: string): Promise<void>;
+  // key may be the post's secret key or the author's identity secret
+  restorePost(id: string, key: string): Promise<void>;
+  // Most recently deleted first
+  listDeletedPosts(userId: string, authorKey: string): Promise<DeletedPost[]>;
+  // Oldest first
+  listPostRevisions(postId: string): Promise<PostRevision[]>;
+  listComments(postId: string): Promise<Comment[]>;
+  addComment(comment: NewComment): Promise<Comment>;
+  // Newest first, leaving out deleted and hidden comments
+  listUserComments(userId: string, limit: number): Promise<UserComment[]>;
+  getUserProfile(userId: string, weeks: number): Promise<UserProfile>;
+  // key may be the comment's secret key or the author's identity secret
+  updateComment(id: string, key: string, content: string): Promise<void>;
+  deleteComment(id: string, key: string): Promise<void>;
+  // Returns the target's new score
+  castVote(
+    target: VoteTarget,
+    voterKey: string,
+    value: VoteValue
+  ): Promise<number>;
+  getVotes(postId: string, voterKey: string): Promise<PostVotes>;
+  // Newest first, leaving out posts that are hidden or deleted
+  listBookmarks(ownerKey: string): Promise<Bookmark[]>;
+  setBookmark(ownerKey: string, postId: string, saved: boolean): Promise<void>;
+  markBookmarkSeen(ownerKey: string, postId: string): Promise<void>;
+  // The notification methods take the recipient's public ID and the identity
+  // secret that ID was first written with. With any other secret the reads
+  // come back empty ([], 0 or no muted types), while marking read and muting
+  // throw invalid_secret_key. Newest first, leaving out muted types.
+  listNotifications(
+    userId: string,
+    ownerKey: string,
+    limit: number
+  ): Promise<UserNotification[]>;
+  countUnreadNotifications(userId: string, ownerKey: string): Promise<number>;
+  // Marks the given notifications read, or all of them without ids
+  markNotificationsRead(
+    userId: string,
+    ownerKey: string,
+    ids?: string[]
+  ): Promise<void>;
+  getMutedNotificationTypes(
+    userId: string,
+    ownerKey: string
+  ): Promise<NotificationType[]>;
+  setMutedNotificationTypes(
+    userId: string,
+    ownerKey: string,
+    muted: NotificationType[]
+  ): Promise<void>;
+  // Kickoff order. Reading fixtures also opens whichever match thread is due.
+  listFixtures(): Promise<Fixture[]>;
+  getFixture(id: string): Promise<Fixture | null>;
+  reportContent(report: NewReport): Promise<void>;
+  // The moderation methods throw invalid_moderator_key for a wrong key
+  listModerationQueue(moderatorKey: string): Promise<ModerationItem[]>;
+  moderateContent(
+    moderatorKey: string,
+    target: VoteTarget,
+    action: ModerationAction
+  ): Promise<void>;
+  listModerationLog(
+    moderatorKey: string,
+    limit: number
+  ): Promise<ModerationLogEntry[]>;
+  // Returns a URL that can be used as a post's image_url
+  uploadImage(image: Blob): Promise<string>;
+  subscribeToPost(
+    postId: string,
+    handlers: PostSubscriptionHandlers
+  ): Unsubscribe;
+  subscribeToNewPosts(onPost: (post: Post) => void): Unsubscribe;
+}
+
+export type BackendKind = "supabase" | "local" | "memory";
+
+const createBackend = (kind: BackendKind | undefined): Backend => {
+  switch (kind) {
+    case "local":
+      return createLocalBackend({ storage: window.localStorage });
+    case "memory":
+      return createLocalBackend({ storage: null });
+    default:
+      return supabaseBackend;
+  }
+};
+
+let backend: Backend | null = null;
+
+export const getBackend = () => {
+  if (!backend) {
+    backend = createBackend(import.meta.env.VITE_BACKEND);
+  }
+  return backend;
+};
@@ -0,0 +1,1413 @@
+import type { Backend } from "../backend";
+import { ApiError } from "../errors";
+import type {
+  ActivityWeek,
+  Bookmark,
+  Comment,
+  DeletedPost,
+  Fixture,
+  MatchThreadKind,
+  ModerationItem,
+  ModerationLogEntry,
+  NotificationType,
+  Post,
+  PostChanges,
+  PostCursor,
+  PostRevision,
+  PostSort,
+  PostVotes,
+  ReportReason,
+  UserNotification,
+  VoteTarget,
+  VoteValue,
+} from "../types";
+import { REPORT_HIDE_THRESHOLD } from "../moderation";
+import { VOTE_MILESTONES } from "../notifications";
+import { TRASH_RETENTION_DAYS } from "../posts";
+import {
+  DEFAULT_CONTENT_RULES,
+  countLinks,
+  findBlockedWord,
+  maskWords,
+  type ContentRules,
+} from "../../utils/contentRules";
+import {
+  MATCH_THREAD_AUTHOR,
+  dueMatchThreads,
+  matchThreadContent,
+  matchThreadTitle,
+} from "../../utils/fixtures";
+import { matchesFlags } from "../../utils/flags";
+import { extractHashtags, normalizeTag } from "../../utils/hashtags";
+import { generateId } from "../../utils/id";
+import { parseSearchQuery } from "../../utils/search";
+import { createSeedData } from "./seed";
+
+// Tags are derived from the title and content when read, like the generated
+// column in Postgres.
+export interface StoredPost extends Omit<Post, "tags" | "fixture_id"> {
+  secret_key: string;
+  // Missing on posts saved before moderation existed
+  hidden_at?: string | null;
+  // Likewise for posts saved before the trash existed
+  author_key?: string;
+  deleted_at?: string | null;
+  // Likewise for posts saved before fixtures existed
+  fixture_id?: string | null;
+  // Set on generated match threads
+  match_thread?: MatchThreadKind | null;
+}
+
+export interface StoredComment extends Comment {
+  secret_key: string;
+  author_key: string;
+  // The text of a hidden comment, kept out of content while it is hidden
+  hidden_content?: string | null;
+}
+
+export interface StoredVote {
+  target_type: VoteTarget["type"];
+  target_id: string;
+  voter_key: string;
+  value: VoteValue;
+}
+
+// Threads are looked up from the posts when read
+export type StoredFixture = Omit<Fixture, "threads">;
+
+export interface StoredBookmark extends Bookmark {
+  owner_key: string;
+}
+
+// The post title and comment excerpt are looked up when read
+export interface StoredNotification extends Omit<
+  UserNotification,
+  "post_title" | "comment_excerpt"
+> {
+  user_id: string;
+}
+
+export interface StoredNotificationSettings {
+  user_id: string;
+  muted: NotificationType[];
+}
+
+// The identity secret a user ID was first written with
+export interface StoredUserKey {
+  user_id: string;
+  key: string;
+}
+
+export interface StoredReport {
+  target_type: VoteTarget["type"];
+  target_id: string;
+  reporter_key: string;
+  reason: ReportReason;
+  details: string;
+  status: "open" | "dismissed" | "actioned";
+  created_at: string;
+}
+
+export interface LocalData {
+  posts: StoredPost[];
+  comments: StoredComment[];
+  votes: StoredVote[];
+  reports: StoredReport[];
+  moderationLog: ModerationLogEntry[];
+  revisions: PostRevision[];
+  bookmarks: StoredBookmark[];
+  notifications: StoredNotification[];
+  notificationSettings: StoredNotificationSettings[];
+  userKeys: StoredUserKey[];
+  fixtures: StoredFixture[];
+}
+
+export interface LocalBackendOptions {
+  // Where to persist data between reloads; null keeps everything in memory.
+  storage: Storage | null;
+  seed?: boolean;
+  // The key that unlocks the moderation page
+  moderatorKey?: string;
+  // Overrides for the rate limits, word filter and other safeguards
+  contentRules?: Partial<ContentRules>;
+}
+
+const STORAGE_KEY = "muhub.local-backend";
+
+// How often subscriptions check for changes, standing in for realtime pushes
+const POLL_INTERVAL_MS = 3000;
+
+const emptyData = (): LocalData => ({
+  posts: [],
+  comments: [],
+  votes: [],
+  reports: [],
+  moderationLog: [],
+  revisions: [],
+  bookmarks: [],
+  notifications: [],
+  notificationSettings: [],
+  userKeys: [],
+  fixtures: [],
+});
+
+// Strips fields that must never leave the backend, mirroring the column
+// privileges on the Supabase tables.
+const toPost = (post: StoredPost): Post => ({
+  id: post.id,
+  title: post.title,
+  content: post.content,
+  image_url: post.image_url,
+  // Posts saved before videos were supported have no video_url
+  video_url: post.video_url ?? "",
+  upvotes: post.upvotes,
+  created_at: post.created_at,
+  // Likewise for posts saved before edits were tracked
+  edited_at: post.edited_at ?? null,
+  user_id: post.user_id,
+  repost_id: post.repost_id,
+  flags: [...post.flags],
+  tags: extractHashtags(`${post.title}\n${post.content}`),
+  comment_count: post.comment_count,
+  fixture_id: post.fixture_id ?? null,
+});
+
+const toComment = (comment: StoredComment): Comment => ({
+  id: comment.id,
+  post_id: comment.post_id,
+  parent_id: comment.parent_id,
+  content: comment.content,
+  created_at: comment.created_at,
+  user_id: comment.user_id,
+  edited_at: comment.edited_at,
+  deleted_at: comment.deleted_at,
+  hidden_at: comment.hidden_at ?? null,
+  upvotes: comment.upvotes,
+});
+
+// Hidden and deleted posts are left out of every read, like the row level
+// security policy on posts.
+const isVisible = (post: StoredPost) => !post.hidden_at && !post.deleted_at;
+
+const secretKeyMatches = (stored: string, candidate: string) =>
+  stored !== "" && candidate !== "" && stored === candidate;
+
+// Orders posts the way the feed query does: by the sort column, then by ID,
+// both descending.
+const compareForFeed = (sortBy: PostSort) => (a: PostCursor, b: PostCursor) => {
+  const primary =
+    sortBy === "upvotes"
+      ? b.upvotes - a.upvotes
+      : b.created_at.localeCompare(a.created_at);
+  return primary !== 0 ? primary : b.id.localeCompare(a.id);
+};
+
+const countOccurrences = (text: string, term: string) =>
+  text.toLowerCase().split(term).length - 1;
+
+const byOldest = (a: { created_at: string }, b: { created_at: string }) =>
+  a.created_at.localeCompare(b.created_at);
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Monday 00:00 UTC of the week containing date, like date_trunc('week')
+const startOfWeek = (date: Date) => {
+  const start = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+};
+
+// A stand-in for Supabase that keeps posts and comments in memory or in
+// localStorage, for development and testing without a live project.
+export const createLocalBackend = ({
+  storage,
+  seed = true,
+  moderatorKey = "moderator",
+  contentRules,
+}: LocalBackendOptions): Backend => {
+  const rules = { ...DEFAULT_CONTENT_RULES, ...contentRules };
+
+  const load = (): LocalData => {
+    try {
+      const stored = storage?.getItem(STORAGE_KEY);
+      // Fill in collections added since the data was first saved
+      if (stored) return { ...emptyData(), ...JSON.parse(stored) };
+    } catch (error) {
+      console.error("Error reading local backend data:", error);
+    }
+    return seed ? createSeedData(new Date()) : emptyData();
+  };
+
+  let data = load();
+
+  const save = () => {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(data));
+  };
+  save();
+
+  // Re-reads storage on every tick so changes made in other tabs are seen,
+  // then lets the subscription report whatever differs from its last check.
+  const poll = (check: () => void) => {
+    const timer = setInterval(() => {
+      if (storage) data = load();
+      check();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  };
+
+  const findPost = (id: string) => data.posts.find((post) => post.id === id);
+  const findVisiblePost = (id: string) => {
+    const post = findPost(id);
+    return post && isVisible(post) ? post : undefined;
+  };
+  const findComment = (id: string) =>
+    data.comments.find((comment) => comment.id === id && !comment.deleted_at);
+
+  const requireTitle = (title: string) => {
+    if (!title.trim()) {
+      throw new ApiError("validation", "Title is required");
+    }
+  };
+
+  // Mirrors posts_video_url_check
+  const requireVideoUrl = (url: string) => {
+    if (url && !/^https?:\/\//i.test(url)) {
+      throw new ApiError("validation", "Video URL must start with http(s)://");
+    }
+  };
+
+  // Mirrors the content_safeguards triggers: rejects blocked words and too
+  // many links, and returns the texts with masked words starred out.
+  const applyContentRules = (kind: "Posts" | "Comments", texts: string[]) => {
+    for (const text of texts) {
+      const blocked = findBlockedWord(text, rules.words);
+      if (blocked) {
+        throw new ApiError(
+          "validation",
+          `Please remove "${blocked}" and try again`
+        );
+      }
+    }
+    const links = texts.reduce((total, text) => total + countLinks(text), 0);
+    if (links > rules.maxLinks) {
+      throw new ApiError(
+        "validation",
+        `${kind} can contain at most ${rules.maxLinks} links`
+      );
+    }
+    return texts.map((text) => maskWords(text, rules.words));
+  };
+
+  const createdWithin = (item: { created_at: string }, minutes: number) =>
+    Date.now() - new Date(item.created_at).getTime() < minutes * 60_000;
+
+  const requireOwnedComment = (id: string, key: string) => {
+    const comment = data.comments.find((candidate) => candidate.id === id);
+    if (
+      !comment ||
+      comment.deleted_at ||
+      !(
+        secretKeyMatches(comment.secret_key, key) ||
+        secretKeyMatches(comment.author_key, key)
+      )
+    ) {
+      throw new ApiError("invalid_secret_key", "Invalid secret key");
+    }
+    return comment;
+  };
+
+  // Removes a post with everything that belongs to it, like the cascading
+  // foreign keys in Postgres.
+  const removePost = (id: string) => {
+    const commentIds = new Set(
+      data.comments
+        .filter((comment) => comment.post_id === id)
+        .map((comment) => comment.id)
+    );
+    const belongsToPost = (targetId: string) =>
+      targetId === id || commentIds.has(targetId);
+
+    data.votes = data.votes.filter((vote) => !belongsToPost(vote.target_id));
+    data.reports = data.reports.filter(
+      (report) => !belongsToPost(report.target_id)
+    );
+    data.comments = data.comments.filter((comment) => comment.post_id !== id);
+    data.revisions = data.revisions.filter(
+      (revision) => revision.post_id !== id
+    );
+    data.bookmarks = data.bookmarks.filter(
+      (bookmark) => bookmark.post_id !== id
+    );
+    data.notifications = data.notifications.filter(
+      (notification) => notification.post_id !== id
+    );
+    data.posts = data.posts.filter((post) => post.id !== id);
+    data.posts.forEach((post) => {
+      if (post.repost_id === id) post.repost_id = null;
+    });
+  };
+
+  const requireModerator = (key: string) => {
+    if (!secretKeyMatches(moderatorKey, key)) {
+      throw new ApiError("invalid_moderator_key", "Invalid moderator key");
+    }
+    return "Local moderator";
+  };
+
+  const hideComment = (comment: StoredComment) => {
+    if (comment.hidden_at) return;
+    comment.hidden_at = new Date().toISOString();
+    comment.hidden_content = comment.content;
+    comment.content = "";
+  };
+
+  const requireOwnedPost = (id: string, secretKey: string) => {
+    const post = findPost(id);
+    if (
+      !post ||
+      post.deleted_at ||
+      !secretKeyMatches(post.secret_key, secretKey)
+    ) {
+      throw new ApiError("invalid_secret_key", "Invalid secret key");
+    }
+    return post;
+  };
+
+  // Mirrors post_key_matches
+  const postKeyMatches = (post: StoredPost, key: string) =>
+    secretKeyMatches(post.secret_key, key) ||
+    secretKeyMatches(post.author_key ?? "", key);
+
+  const isInTrash = (post: StoredPost) =>
+    !!post.deleted_at &&
+    Date.now() - new Date(post.deleted_at).getTime() <
+      TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  // Mirrors purge_deleted_posts. Nothing runs on a schedule here, so it runs
+  // when the backend starts and whenever the trash is read.
+  const purgeDeletedPosts = () => {
+    const expired = data.posts.filter(
+      (post) => post.deleted_at && !isInTrash(post)
+    );
+    expired.forEach((post) => removePost(post.id));
+    if (expired.length > 0) save();
+  };
+  purgeDeletedPosts();
+
+  const findFixture = (id: string) =>
+    data.fixtures.find((fixture) => fixture.id === id);
+
+  const toFixture = (fixture: StoredFixture): Fixture => ({
+    ...fixture,
+    threads: Object.fromEntries(
+      data.posts
+        .filter(
+          (post) =>
+            post.fixture_id === fixture.id &&
+            post.match_thread &&
+            isVisible(post)
+        )
+        .map((post) => [post.match_thread, post.id])
+    ),
+  });
+
+  // Mirrors create_match_threads: opens every thread that is due for each
+  // fixture, catching up on windows that passed unseen. Nothing runs on a
+  // schedule here, so the feed and fixture reads call it instead.
+  const openMatchThreads = () => {
+    const now = new Date();
+    let opened = false;
+    data.fixtures.forEach((fixture) => {
+      dueMatchThreads(fixture.kickoff, now.getTime()).forEach((kind) => {
+        if (
+          data.posts.some(
+            (post) =>
+              post.fixture_id === fixture.id && post.match_thread === kind
+          )
+        ) {
+          return;
+        }
+        data.posts.push({
+          id: generateId(),
+          title: matchThreadTitle(toFixture(fixture), kind),
+          content: matchThreadContent(toFixture(fixture), kind),
+          image_url: "",
+          video_url: "",
+          upvotes: 0,
+          created_at: now.toISOString(),
+          edited_at: null,
+          user_id: MATCH_THREAD_AUTHOR,
+          repost_id: null,
+          flags: ["Discussion"],
+          comment_count: 0,
+          // Nobody holds a key, so the thread cannot be edited or deleted
+          secret_key: "",
+          fixture_id: fixture.id,
+          match_thread: kind,
+        });
+        opened = true;
+      });
+    });
+    if (opened) save();
+  };
+
+  // Mirrors bind_user_key: the first author key written with a user ID
+  // claims it, and other keys may not write with it afterwards.
+  const bindUserKey = (userId: string, key: string) => {
+    if (!key) return;
+    const bound = data.userKeys.find(
+      (candidate) => candidate.user_id === userId
+    );
+    if (!bound) {
+      data.userKeys.push({ user_id: userId, key });
+    } else if (!secretKeyMatches(bound.key, key)) {
+      throw new ApiError(
+        "validation",
+        "This user ID belongs to another identity"
+      );
+    }
+  };
+
+  // Mirrors notification_owner_matches
+  const notificationOwnerMatches = (userId: string, key: string) =>
+    data.userKeys.some(
+      (candidate) =>
+        candidate.user_id === userId && secretKeyMatches(candidate.key, key)
+    );
+
+  const requireNotificationOwner = (userId: string, key: string) => {
+    if (!key) {
+      throw new ApiError("validation", "Owner key is required");
+    }
+    if (!notificationOwnerMatches(userId, key)) {
+      throw new ApiError("invalid_secret_key", "Invalid secret key");
+    }
+  };
+
+  const mutedTypes = (userId: string) =>
+    data.notificationSettings.find((settings) => settings.user_id === userId)
+      ?.muted ?? [];
+
+  // Mirrors notify_user, skipping muted types and milestones already reached
+  const notify = (
+    notification: Omit<StoredNotification, "id" | "created_at" | "read_at">
+  ) => {
+    if (mutedTypes(notification.user_id).includes(notification.type)) return;
+    if (
+      notification.type === "milestone" &&
+      data.notifications.some(
+        (existing) =>
+          existing.type === "milestone" &&
+          existing.post_id === notification.post_id &&
+          existing.comment_id === notification.comment_id &&
+          existing.milestone === notification.milestone
+      )
+    ) {
+      return;
+    }
+    data.notifications.push({
+      ...notification,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+      read_at: null,
+    });
+  };
+
+  // The notifications that list_notifications would return, newest first
+  const visibleNotifications = (userId: string) =>
+    data.notifications
+      .filter(
+        (notification) =>
+          notification.user_id === userId &&
+          !mutedTypes(userId).includes(notification.type)
+      )
+      .flatMap((notification): UserNotification[] => {
+        const post = findVisiblePost(notification.post_id);
+        const comment = notification.comment_id
+          ? findComment(notification.comment_id)
+          : null;
+        if (
+          !post ||
+          (notification.comment_id && (!comment || comment.hidden_at))
+        ) {
+          return [];
+        }
+        return [
+          {
+            ...notification,
+            post_title: post.title,
+            comment_excerpt: comment ? comment.content.slice(0, 140) : null,
+          },
+        ];
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  return {
+    async listPosts({
+      sortBy = "created_at",
+      search,
+      flags = [],
+      flagMatch = "all",
+      tag,
+      ids,
+      userId,
+      fixtureId,
+      cursor,
+      limit = 10,
+    }) {
+      openMatchThreads();
+      const compare = compareForFeed(sortBy);
+      const term = search?.trim().toLowerCase();
+      const wantedTag = tag ? normalizeTag(tag) : "";
+      const wantedIds = ids ? new Set(ids) : null;
+      const matching = data.posts
+        .filter(
+          (post) =>
+            isVisible(post) &&
+            (!term || post.title.toLowerCase().includes(term)) &&
+            matchesFlags(post.flags, flags, flagMatch) &&
+            (!wantedTag || toPost(post).tags.includes(wantedTag)) &&
+            (!wantedIds || wantedIds.has(post.id)) &&
+            (!userId || post.user_id === userId) &&
+            (!fixtureId || post.fixture_id === fixtureId) &&
+            (!cursor || compare(cursor, post) < 0)
+        )
+        .sort(compare);
+
+      const posts = matching.slice(0, limit).map(toPost);
+      const last = posts[posts.length - 1];
+      return {
+        posts,
+        nextCursor:
+          matching.length > limit && last
+            ? {
+                id: last.id,
+                created_at: last.created_at,
+                upvotes: last.upvotes,
+              }
+            : null,
+      };
+    },
+
+    // A rough approximation of the Postgres ranking: title matches weigh
+    // most, then the body, then comments.
+    async searchPosts(query, { limit = 20, offset = 0 }) {
+      const { terms, excluded } = parseSearchQuery(query);
+      if (terms.length === 0) return [];
+
+      return data.posts
+        .filter(isVisible)
+        .map((post) => {
+          const comments = data.comments
+            .filter((comment) => comment.post_id === post.id)
+            .map((comment) => comment.content);
+          const haystack = [post.title, post.content, ...comments]
+            .join("\n")
+            .toLowerCase();
+
+          if (
+            !terms.every((term) => haystack.includes(term)) ||
+            excluded.some((term) => haystack.includes(term))
+          ) {
+            return null;
+          }
+
+          const rank = terms.reduce(
+            (total, term) =>
+              total +
+              countOccurrences(post.title, term) * 3 +
+              countOccurrences(post.content, term) * 2 +
+              comments.reduce(
+                (sum, comment) => sum + countOccurrences(comment, term),
+                0
+              ),
+            0
+          );
+          const matchedComment =
+            comments.find((comment) =>
+              terms.some((term) => comment.toLowerCase().includes(term))
+            ) ?? null;
+
+          return { ...toPost(post), rank, matched_comment: matchedComment };
+        })
+        .filter((result) => result !== null)
+        .sort(
+          (a, b) => b.rank - a.rank || b.created_at.localeCompare(a.created_at)
+        )
+        .slice(offset, offset + limit);
+    },
+
+    async listPopularTags(limit) {
+      const counts = new Map<string, number>();
+      data.posts
+        .filter(isVisible)
+        .forEach((post) =>
+          toPost(post).tags.forEach((tag) =>
+            counts.set(tag, (counts.get(tag) ?? 0) + 1)
+          )
+        );
+      return [...counts]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+        .slice(0, limit);
+    },
+
+    async getPost(id) {
+      const post = findVisiblePost(id);
+      return post ? toPost(post) : null;
+    },
+
+    async listReferencingPosts(id) {
+      return data.posts
+        .filter((post) => isVisible(post) && post.repost_id === id)
+        .sort(byOldest)
+        .map(toPost);
+    },
+
+    async createPost(post) {
+      requireTitle(post.title);
+      requireVideoUrl(post.video_url);
+      if (post.repost_id && !findVisiblePost(post.repost_id)) {
+        throw new ApiError("validation", "Referenced post does not exist");
+      }
+      if (post.fixture_id && !findFixture(post.fixture_id)) {
+        throw new ApiError("validation", "Fixture does not exist");
+      }
+      const [title, content] = applyContentRules("Posts", [
+        post.title,
+        post.content,
+      ]);
+
+      // Counted by author key rather than the user_id the client sends
+      if (!post.author_key) {
+        throw new ApiError("validation", "An author key is required");
+      }
+      const previous = data.posts.filter(
+        (candidate) => (candidate.author_key ?? "") === post.author_key
+      );
+      if (
+        previous.filter((candidate) => createdWithin(candidate, 1)).length >=
+        rules.postsPerMinute
+      ) {
+        throw new ApiError(
+          "validation",
+          "You are posting too quickly. Please wait a minute and try again."
+        );
+      }
+      if (
+        previous.some(
+          (candidate) =>
+            candidate.title === title &&
+            candidate.content === content &&
+            createdWithin(candidate, rules.duplicateWindowMinutes)
+        )
+      ) {
+        throw new ApiError("validation", "You have already posted this");
+      }
+      bindUserKey(post.user_id, post.author_key);
+
+      const stored: StoredPost = {
+        ...post,
+        title,
+        content,
+        id: generateId(),
+        created_at: new Date().toISOString(),
+        edited_at: null,
+        upvotes: 0,
+        comment_count: 0,
+        flags: [...post.flags],
+        fixture_id: post.fixture_id ?? null,
+      };
+      data.posts.push(stored);
+      save();
+      return toPost(stored);
+    },
+
+    async updatePost(id, secretKey, changes) {
+      requireTitle(changes.title);
+      requireVideoUrl(changes.video_url);
+      const post = requireOwnedPost(id, secretKey);
+      const [title, content] = applyContentRules("Posts", [
+        changes.title,
+        changes.content,
+      ]);
+      changes = { ...changes, title, content };
+
+      const previous: PostChanges = {
+        title: post.title,
+        content: post.content,
+        image_url: post.image_url,
+        video_url: post.video_url ?? "",
+        flags: [...post.flags],
+      };
+      // Saving without changing anything should not clutter the history
+      const unchanged = (Object.keys(previous) as (keyof PostChanges)[]).every(
+        (field) =>
+          JSON.stringify(previous[field]) === JSON.stringify(changes[field])
+      );
+      if (unchanged) return;
+
+      const now = new Date().toISOString();
+      data.revisions.push({
+        ...previous,
+        id: generateId(),
+        post_id: id,
+        created_at: now,
+      });
+      post.title = changes.title;
+      post.content = changes.content;
+      post.image_url = changes.image_url;
+      post.video_url = changes.video_url;
+      post.flags = [...changes.flags];
+      post.edited_at = now;
+      save();
+    },
+
+    async deletePost(id, secretKey) {
+      const post = findPost(id);
+      if (!post || post.deleted_at || !postKeyMatches(post, secretKey)) {
+        throw new ApiError("invalid_secret_key", "Invalid secret key");
+      }
+      post.deleted_at = new Date().toISOString();
+      save();
+    },
+
+    async restorePost(id, key) {
+      const post = findPost(id);
+      if (!post || !isInTrash(post)) {
+        throw new ApiError("not_found", "Not found");
+      }
+      if (!postKeyMatches(post, key)) {
+        throw new ApiError("invalid_secret_key", "Invalid secret key");
+      }
+      post.deleted_at = null;
+      save();
+    },
+
+    async listDeletedPosts(userId, authorKey) {
+      purgeDeletedPosts();
+      return data.posts
+        .filter(
+          (post) =>
+            post.user_id === userId &&
+            isInTrash(post) &&
+            secretKeyMatches(post.author_key ?? "", authorKey)
+        )
+        .map((post): DeletedPost => ({
+          ...toPost(post),
+          deleted_at: post.deleted_at as string,
+        }))
+        .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+    },
+
+    async listPostRevisions(postId) {
+      // Follows the post's visibility, like the read policy on post_revisions
+      if (!findVisiblePost(postId)) return [];
+      return data.revisions
+        .filter((revision) => revision.post_id === postId)
+        .sort(byOldest)
+        .map((revision) => ({ ...revision, flags: [...revision.flags] }));
+    },
+
+    async listComments(postId) {
+      return data.comments
+        .filter((comment) => comment.post_id === postId)
+        .sort(byOldest)
+        .map(toComment);
+    },
+
+    async addComment(comment) {
+      const post = findVisiblePost(comment.post_id);
+      if (!post) {
+        throw new ApiError("not_found", "Not found");
+      }
+
+      const parentId = comment.parent_id ?? null;
+      if (
+        parentId &&
+        !data.comments.some(
+          (parent) => parent.id === parentId && parent.post_id === post.id
+        )
+      ) {
+        throw new ApiError(
+          "validation",
+          "Parent comment must belong to the same post"
+        );
+      }
+
+      const [content] = applyContentRules("Comments", [comment.content]);
+      if (!comment.author_key) {
+        throw new ApiError("validation", "An author key is required");
+      }
+      const previous = data.comments.filter(
+        (candidate) => candidate.author_key === comment.author_key
+      );
+      if (
+        previous.filter((candidate) => createdWithin(candidate, 1)).length >=
+        rules.commentsPerMinute
+      ) {
+        throw new ApiError(
+          "validation",
+          "You are commenting too quickly. Please wait a minute and try again."
+        );
+      }
+      if (
+        previous.some(
+          (candidate) =>
+            candidate.post_id === post.id &&
+            candidate.content === content &&
+            createdWithin(candidate, rules.duplicateWindowMinutes)
+        )
+      ) {
+        throw new ApiError(
+          "validation",
+          "You have already posted this comment"
+        );
+      }
+      bindUserKey(comment.user_id, comment.author_key);
+
+      const stored: StoredComment = {
+        ...comment,
+        content,
+        parent_id: parentId,
+        id: generateId(),
+        created_at: new Date().toISOString(),
+        secret_key: comment.secret_key ?? "",
+        edited_at: null,
+        deleted_at: null,
+        hidden_at: null,
+        upvotes: 0,
+      };
+      data.comments.push(stored);
+      post.comment_count += 1;
+
+      // Mirrors notify_on_comment
+      const parentAuthor = parentId
+        ? findComment(parentId)?.user_id
+        : undefined;
+      const about = {
+        post_id: post.id,
+        comment_id: stored.id,
+        actor_id: stored.user_id,
+        milestone: null,
+      };
+      if (parentAuthor && parentAuthor !== stored.user_id) {
+        notify({ ...about, user_id: parentAuthor, type: "reply" });
+      }
+      if (post.user_id !== stored.user_id && post.user_id !== parentAuthor) {
+        notify({ ...about, user_id: post.user_id, type: "comment" });
+      }
+      save();
+      return toComment(stored);
+    },
+
+    async listUserComments(userId, limit) {
+      return data.comments
+        .filter(
+          (comment) =>
+            comment.user_id === userId &&
+            !comment.deleted_at &&
+            !comment.hidden_at
+        )
+        .flatMap((comment) => {
+          const post = findVisiblePost(comment.post_id);
+          return post
+            ? [{ ...toComment(comment), post_title: post.title }]
+            : [];
+        })
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    },
+
+    async getUserProfile(userId, weeks) {
+      const posts = data.posts.filter(
+        (post) => isVisible(post) && post.user_id === userId
+      );
+      const allComments = data.comments.filter(
+        (comment) => comment.user_id === userId
+      );
+      const comments = allComments.filter(
+        (comment) => !comment.deleted_at && !comment.hidden_at
+      );
+
+      const firstWeek =
+        startOfWeek(new Date()).getTime() -
+        (Math.min(Math.max(weeks, 1), 52) - 1) * WEEK_MS;
+      const activity: ActivityWeek[] = [];
+      for (let start = firstWeek; start <= Date.now(); start += WEEK_MS) {
+        const inWeek = (item: { created_at: string }) => {
+          const time = new Date(item.created_at).getTime();
+          return time >= start && time < start + WEEK_MS;
+        };
+        activity.push({
+          week: new Date(start).toISOString().slice(0, 10),
+          posts: posts.filter(inWeek).length,
+          comments: comments.filter(inWeek).length,
+        });
+      }
+
+      return {
+        user_id: userId,
+        joined_at:
+          [...posts, ...allComments].sort(byOldest)[0]?.created_at ?? null,
+        post_count: posts.length,
+        comment_count: comments.length,
+        upvotes: [
+          ...posts,
+          ...allComments.filter((comment) => !comment.deleted_at),
+        ].reduce((total, item) => total + item.upvotes, 0),
+        activity,
+      };
+    },
+
+    async updateComment(id, key, content) {
+      if (!content.trim()) {
+        throw new ApiError("validation", "Comment cannot be empty");
+      }
+      const comment = requireOwnedComment(id, key);
+      // Authors cannot edit a hidden comment back into view
+      if (comment.hidden_at) {
+        throw new ApiError("invalid_secret_key", "Invalid secret key");
+      }
+      [comment.content] = applyContentRules("Comments", [content]);
+      comment.edited_at = new Date().toISOString();
+      save();
+    },
+
+    async deleteComment(id, key) {
+      const comment = requireOwnedComment(id, key);
+      comment.content = "";
+      comment.hidden_content = null;
+      comment.deleted_at = new Date().toISOString();
+      save();
+    },
+
+    async castVote(target, voterKey, value) {
+      if (!voterKey) {
+        throw new ApiError("validation", "Voter key is required");
+      }
+
+      // Hidden and deleted posts and comments cannot be voted on, like in
+      // cast_vote
+      const comment =
+        target.type === "comment" ? findComment(target.id) : undefined;
+      const subject =
+        target.type === "post"
+          ? findVisiblePost(target.id)
+          : comment && !comment.hidden_at && findVisiblePost(comment.post_id)
+            ? comment
+            : undefined;
+      if (!subject) throw new ApiError("not_found", "Not found");
+
+      const isSameVote = (vote: StoredVote) =>
+        vote.target_type === target.type &&
+        vote.target_id === target.id &&
+        vote.voter_key === voterKey;
+      const previous = data.votes.find(isSameVote)?.value ?? 0;
+
+      data.votes = data.votes.filter((vote) => !isSameVote(vote));
+      if (value !== 0) {
+        data.votes.push({
+          target_type: target.type,
+          target_id: target.id,
+          voter_key: voterKey,
+          value,
+        });
+      }
+      const before = subject.upvotes;
+      subject.upvotes += value - previous;
+
+      // Mirrors notify_on_milestone
+      VOTE_MILESTONES.filter(
+        (milestone) => milestone > before && milestone <= subject.upvotes
+      ).forEach((milestone) =>
+        notify({
+          user_id: subject.user_id,
+          type: "milestone",
+          post_id: "post_id" in subject ? subject.post_id : subject.id,
+          comment_id: "post_id" in subject ? subject.id : null,
+          actor_id: null,
+          milestone,
+        })
+      );
+      save();
+      return subject.upvotes;
+    },
+
+    async getVotes(postId, voterKey) {
+      const commentIds = new Set(
+        data.comments
+          .filter((comment) => comment.post_id === postId)
+          .map((comment) => comment.id)
+      );
+      const votes: PostVotes = { post: 0, comments: {} };
+      data.votes
+        .filter((vote) => vote.voter_key === voterKey)
+        .forEach((vote) => {
+          if (vote.target_type === "post" && vote.target_id === postId) {
+            votes.post = vote.value;
+          } else if (
+            vote.target_type === "comment" &&
+            commentIds.has(vote.target_id)
+          ) {
+            votes.comments[vote.target_id] = vote.value;
+          }
+        });
+      return votes;
+    },
+
+    async listBookmarks(ownerKey) {
+      return data.bookmarks
+        .filter(
+          (bookmark) =>
+            bookmark.owner_key === ownerKey && findVisiblePost(bookmark.post_id)
+        )
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(({ post_id, created_at, seen_comment_count }) => ({
+          post_id,
+          created_at,
+          seen_comment_count,
+        }));
+    },
+
+    async setBookmark(ownerKey, postId, saved) {
+      if (!ownerKey) {
+        throw new ApiError("validation", "Owner key is required");
+      }
+      const isMine = (bookmark: StoredBookmark) =>
+        bookmark.owner_key === ownerKey && bookmark.post_id === postId;
+
+      if (!saved) {
+        data.bookmarks = data.bookmarks.filter((bookmark) => !isMine(bookmark));
+        save();
+        return;
+      }
+
+      const post = findVisiblePost(postId);
+      if (!post) {
+        throw new ApiError("not_found", "Not found");
+      }
+      if (data.bookmarks.some(isMine)) return;
+      data.bookmarks.push({
+        owner_key: ownerKey,
+        post_id: postId,
+        created_at: new Date().toISOString(),
+        seen_comment_count: post.comment_count,
+      });
+      save();
+    },
+
+    async markBookmarkSeen(ownerKey, postId) {
+      const bookmark = data.bookmarks.find(
+        (candidate) =>
+          candidate.owner_key === ownerKey && candidate.post_id === postId
+      );
+      const post = findPost(postId);
+      if (!bookmark || !post) return;
+      bookmark.seen_comment_count = post.comment_count;
+      save();
+    },
+
+    async listNotifications(userId, ownerKey, limit) {
+      if (!notificationOwnerMatches(userId, ownerKey)) return [];
+      return visibleNotifications(userId).slice(
+        0,
+        Math.min(Math.max(limit, 1), 100)
+      );
+    },
+
+    async countUnreadNotifications(userId, ownerKey) {
+      if (!notificationOwnerMatches(userId, ownerKey)) return 0;
+      return visibleNotifications(userId).filter(
+        (notification) => !notification.read_at
+      ).length;
+    },
+
+    async markNotificationsRead(userId, ownerKey, ids) {
+      requireNotificationOwner(userId, ownerKey);
+      const now = new Date().toISOString();
+      data.notifications.forEach((notification) => {
+        if (
+          notification.user_id === userId &&
+          !notification.read_at &&
+          (!ids || ids.includes(notification.id))
+        ) {
+          notification.read_at = now;
+        }
+      });
+      save();
+    },
+
+    async getMutedNotificationTypes(userId, ownerKey) {
+      if (!notificationOwnerMatches(userId, ownerKey)) return [];
+      return [...mutedTypes(userId)];
+    },
+
+    async setMutedNotificationTypes(userId, ownerKey, muted) {
+      requireNotificationOwner(userId, ownerKey);
+      const settings = data.notificationSettings.find(
+        (candidate) => candidate.user_id === userId
+      );
+      if (settings) {
+        settings.muted = [...new Set(muted)];
+      } else {
+        data.notificationSettings.push({
+          user_id: userId,
+          muted: [...new Set(muted)],
+        });
+      }
+      save();
+    },
+
+    async listFixtures() {
+      openMatchThreads();
+      return [...data.fixtures]
+        .sort((a, b) => a.kickoff.localeCompare(b.kickoff))
+        .map(toFixture);
+    },
+
+    async getFixture(id) {
+      openMatchThreads();
+      const fixture = findFixture(id);
+      return fixture ? toFixture(fixture) : null;
+    },
+
+    async reportContent({ target, reason, details, reporter_key }) {
+      if (!reporter_key) {
+        throw new ApiError("validation", "Reporter key is required");
+      }
+
+      const post = target.type === "post" ? findVisiblePost(target.id) : null;
+      const comment = target.type === "comment" ? findComment(target.id) : null;
+      if (!post && (!comment || comment.hidden_at)) {
+        throw new ApiError("not_found", "Not found");
+      }
+
+      const openReports = () =>
+        data.reports.filter(
+          (report) =>
+            report.target_type === target.type &&
+            report.target_id === target.id &&
+            report.status === "open"
+        );
+      if (
+        openReports().some((report) => report.reporter_key === reporter_key)
+      ) {
+        throw new ApiError("validation", "You have already reported this");
+      }
+
+      data.reports.push({
+        target_type: target.type,
+        target_id: target.id,
+        reporter_key,
+        reason,
+        details: details.trim(),
+        status: "open",
+        created_at: new Date().toISOString(),
+      });
+      if (openReports().length >= REPORT_HIDE_THRESHOLD) {
+        if (post) post.hidden_at = new Date().toISOString();
+        if (comment) hideComment(comment);
+      }
+      save();
+    },
+
+    async listModerationQueue(key) {
+      requireModerator(key);
+
+      const summarize = (
+        type: VoteTarget["type"],
+        id: string,
+        hidden_at: string | null
+      ) => {
+        const reports = data.reports.filter(
+          (report) =>
+            report.target_type === type &&
+            report.target_id === id &&
+            report.status === "open"
+        );
+        if (reports.length === 0 && !hidden_at) return null;
+        return {
+          hidden_at,
+          report_count: reports.length,
+          reasons: [...new Set(reports.map((report) => report.reason))],
+          details: reports
+            .map((report) => report.details)
+            .filter((detail) => detail !== ""),
+          last_reported_at:
+            reports
+              .map((report) => report.created_at)
+              .sort()
+              .pop() ?? null,
+        };
+      };
+
+      const items: ModerationItem[] = [];
+      data.posts.forEach((post) => {
+        const summary = summarize("post", post.id, post.hidden_at ?? null);
+        if (summary) {
+          items.push({
+            ...summary,
+            target_type: "post",
+            target_id: post.id,
+            post_id: post.id,
+            title: post.title,
+            content: post.content,
+            user_id: post.user_id,
+          });
+        }
+      });
+      data.comments
+        .filter((comment) => !comment.deleted_at)
+        .forEach((comment) => {
+          const summary = summarize(
+            "comment",
+            comment.id,
+            comment.hidden_at ?? null
+          );
+          if (summary) {
+            items.push({
+              ...summary,
+              target_type: "comment",
+              target_id: comment.id,
+              post_id: comment.post_id,
+              title: findPost(comment.post_id)?.title ?? "",
+              content: comment.hidden_content ?? comment.content,
+              user_id: comment.user_id,
+            });
+          }
+        });
+
+      return items.sort((a, b) =>
+        (b.last_reported_at ?? "").localeCompare(a.last_reported_at ?? "")
+      );
+    },
+
+    async moderateContent(key, target, action) {
+      const moderator = requireModerator(key);
+      const post = target.type === "post" ? findPost(target.id) : null;
+      const comment = target.type === "comment" ? findComment(target.id) : null;
+      if (!post && !comment) throw new ApiError("not_found", "Not found");
+
+      // Taken before the action changes or removes the content
+      const postId = post?.id ?? comment?.post_id ?? "";
+      const summary = post
+        ? post.title
+        : (comment?.hidden_content ?? comment?.content ?? "").slice(0, 140);
+
+      data.reports.forEach((report) => {
+        if (
+          report.target_type === target.type &&
+          report.target_id === target.id &&
+          report.status === "open"
+        ) {
+          report.status =
+            action === "dismiss" || action === "restore"
+              ? "dismissed"
+              : "actioned";
+        }
+      });
+
+      if (post) {
+        if (action === "hide") {
+          post.hidden_at = post.hidden_at ?? new Date().toISOString();
+        } else if (action === "restore") {
+          post.hidden_at = null;
+        } else if (action === "delete") {
+          removePost(post.id);
+        }
+      }
+      if (comment) {
+        if (action === "hide") {
+          hideComment(comment);
+        } else if (action === "restore" && comment.hidden_at) {
+          comment.content = comment.hidden_content ?? comment.content;
+          comment.hidden_content = null;
+          comment.hidden_at = null;
+        } else if (action === "delete") {
+          comment.content = "";
+          comment.hidden_content = null;
+          comment.hidden_at = null;
+          comment.deleted_at = new Date().toISOString();
+        }
+      }
+
+      data.moderationLog.push({
+        id: generateId(),
+        created_at: new Date().toISOString(),
+        moderator,
+        action,
+        target_type: target.type,
+        target_id: target.id,
+        post_id: postId,
+        summary,
+      });
+      save();
+    },
+
+    async listModerationLog(key, limit) {
+      requireModerator(key);
+      return [...data.moderationLog]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    },
+
+    // Images are kept inline as data URLs so they are stored, and survive
+    // reloads, along with the posts that use them.
+    uploadImage(image) {
+      return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () =>
+          reject(new ApiError("unknown", "The image could not be read"));
+        reader.readAsDataURL(image);
+      });
+    },
+
+    subscribeToPost(postId, { onPost, onComment }) {
+      const snapshot = (value: object) => JSON.stringify(value);
+      const post = findPost(postId);
+      let lastPost = post ? snapshot(toPost(post)) : "";
+      const lastComments = new Map(
+        data.comments
+          .filter((comment) => comment.post_id === postId)
+          .map((comment) => [comment.id, snapshot(toComment(comment))])
+      );
+
+      return poll(() => {
+        const current = findVisiblePost(postId);
+        if (current && snapshot(toPost(current)) !== lastPost) {
+          lastPost = snapshot(toPost(current));
+          onPost(toPost(current));
+        }
+
+        data.comments
+          .filter((comment) => comment.post_id === postId)
+          .sort(byOldest)
+          .forEach((stored) => {
+            const comment = toComment(stored);
+            if (lastComments.get(comment.id) !== snapshot(comment)) {
+              lastComments.set(comment.id, snapshot(comment));
+              onComment(comment);
+            }
+          });
+      });
+    },
+
+    subscribeToNewPosts(onPost) {
+      const seen = new Set(data.posts.map((post) => post.id));
+
+      return poll(() => {
+        data.posts
+          .filter((post) => isVisible(post) && !seen.has(post.id))
+          .sort(byOldest)
+          .forEach((post) => {
+            seen.add(post.id);
+            onPost(toPost(post));
+          });
+      });
+    },
+  };
+};
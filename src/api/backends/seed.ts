@@ -0,0 +1,221 @@
+import type { LocalData } from "./local";
+
+const HOUR = 60 * 60 * 1000;
+
+// Sample content for the local backend so a fresh install has something to
+// browse. Every seeded post uses the secret key "seed".
+export const createSeedData = (now: Date): LocalData => {
+  const at = (hoursAgo: number) =>
+    new Date(now.getTime() - hoursAgo * HOUR).toISOString();
+
+  return {
+    posts: [
+      {
+        id: "seed-post-1",
+        title: "Match preview: United vs Liverpool at Old Trafford",
+        content:
+          "Big one on Sunday. Do we stick with the back three or go back to a flat four against their press? I think Mainoo has to start in midfield. #MUNLIV #Mainoo",
+        image_url: "",
+        video_url: "",
+        upvotes: 24,
+        created_at: at(3),
+        edited_at: null,
+        user_id: "seed-user-redarmy",
+        repost_id: null,
+        flags: ["Discussion"],
+        comment_count: 3,
+        secret_key: "seed",
+        fixture_id: "seed-fixture-3",
+      },
+      {
+        id: "seed-post-2",
+        title: "Is the academy still the heart of the club?",
+        content:
+          "From the Class of '92 to Rashford, Garnacho and Mainoo. How important is it that we keep giving academy players a route into the first team? #academy #Mainoo",
+        image_url: "",
+        video_url: "",
+        upvotes: 41,
+        created_at: at(20),
+        edited_at: null,
+        user_id: "seed-user-stretford",
+        repost_id: null,
+        flags: ["Opinion"],
+        comment_count: 1,
+        secret_key: "seed",
+      },
+      {
+        id: "seed-post-3",
+        title: "Who should we target in the January window?",
+        content:
+          "We clearly need a left back and another striker. Loan or permanent? #transfers",
+        image_url: "",
+        video_url: "",
+        upvotes: 12,
+        created_at: at(30),
+        edited_at: at(29),
+        user_id: "seed-user-redarmy",
+        repost_id: null,
+        flags: ["Question"],
+        comment_count: 1,
+        secret_key: "seed",
+      },
+      {
+        id: "seed-post-4",
+        title: "Re: January targets - my shortlist",
+        content:
+          "Following up on the transfer thread: a young left back with Premier League experience should be the priority. #transfers",
+        image_url: "",
+        video_url: "",
+        upvotes: 5,
+        created_at: at(26),
+        edited_at: null,
+        user_id: "seed-user-sirmatt",
+        repost_id: "seed-post-3",
+        flags: ["Opinion"],
+        comment_count: 0,
+        secret_key: "seed",
+      },
+      {
+        id: "seed-post-5",
+        title: "Old Trafford redevelopment plans announced",
+        content:
+          "The club have outlined plans for the stadium. Would you rather see a new build or a renovation of the Theatre of Dreams? #OldTrafford",
+        image_url: "",
+        video_url: "",
+        upvotes: 18,
+        created_at: at(50),
+        edited_at: null,
+        user_id: "seed-user-stretford",
+        repost_id: null,
+        flags: ["News", "Discussion"],
+        comment_count: 0,
+        secret_key: "seed",
+      },
+    ],
+    comments: [
+      {
+        id: "seed-comment-1",
+        post_id: "seed-post-1",
+        parent_id: null,
+        content: "Flat four for me. We get overrun in wide areas otherwise.",
+        created_at: at(2),
+        user_id: "seed-user-sirmatt",
+        secret_key: "",
+        author_key: "",
+        edited_at: null,
+        deleted_at: null,
+        hidden_at: null,
+        upvotes: 0,
+      },
+      {
+        id: "seed-comment-2",
+        post_id: "seed-post-1",
+        parent_id: null,
+        content: "Mainoo has to start, no question.",
+        created_at: at(1),
+        user_id: "seed-user-stretford",
+        secret_key: "",
+        author_key: "",
+        edited_at: null,
+        deleted_at: null,
+        hidden_at: null,
+        upvotes: 0,
+      },
+      {
+        id: "seed-comment-3",
+        post_id: "seed-post-2",
+        parent_id: null,
+        content: "It's part of our identity. Every matchday squad since 1937!",
+        created_at: at(18),
+        user_id: "seed-user-redarmy",
+        secret_key: "",
+        author_key: "",
+        edited_at: null,
+        deleted_at: null,
+        hidden_at: null,
+        upvotes: 0,
+      },
+      {
+        id: "seed-comment-4",
+        post_id: "seed-post-3",
+        parent_id: null,
+        content: "Loan a striker, buy the left back.",
+        created_at: at(28),
+        user_id: "seed-user-stretford",
+        secret_key: "",
+        author_key: "",
+        edited_at: null,
+        deleted_at: null,
+        hidden_at: null,
+        upvotes: 0,
+      },
+      {
+        id: "seed-comment-5",
+        post_id: "seed-post-1",
+        parent_id: "seed-comment-1",
+        content: "A back three gives us cover against their full backs though.",
+        created_at: at(1.5),
+        user_id: "seed-user-redarmy",
+        secret_key: "",
+        author_key: "",
+        edited_at: null,
+        deleted_at: null,
+        hidden_at: null,
+        upvotes: 0,
+      },
+    ],
+    votes: [],
+    reports: [],
+    moderationLog: [],
+    revisions: [
+      {
+        id: "seed-revision-1",
+        post_id: "seed-post-3",
+        title: "Who should we sign in January?",
+        content: "We need a left back. Loan or permanent?",
+        image_url: "",
+        video_url: "",
+        flags: ["Question"],
+        created_at: at(29),
+      },
+    ],
+    bookmarks: [],
+    notifications: [],
+    notificationSettings: [],
+    userKeys: [],
+    // Kickoffs are relative to now, so there is always a result, a match
+    // with its pre-match thread open and one further ahead
+    fixtures: [
+      {
+        id: "seed-fixture-1",
+        opponent: "Chelsea",
+        competition: "Premier League",
+        kickoff: at(40),
+        venue: "Old Trafford",
+        is_home: true,
+        united_score: 2,
+        opponent_score: 1,
+      },
+      {
+        id: "seed-fixture-2",
+        opponent: "Aston Villa",
+        competition: "Carabao Cup",
+        kickoff: at(-20),
+        venue: "Villa Park",
+        is_home: false,
+        united_score: null,
+        opponent_score: null,
+      },
+      {
+        id: "seed-fixture-3",
+        opponent: "Liverpool",
+        competition: "Premier League",
+        kickoff: at(-70),
+        venue: "Old Trafford",
+        is_home: true,
+        united_score: null,
+        opponent_score: null,
+      },
+    ],
+  };
+};
@@ -0,0 +1,532 @@
+import { normalizeTag } from "../../utils/hashtags";
+import { generateId } from "../../utils/id";
+import getSupabase from "../../utils/supabase";
+import type { Backend } from "../backend";
+import { toApiError } from "../errors";
+import type {
+  Comment,
+  Fixture,
+  Post,
+  PostVotes,
+  UserProfile,
+  VoteValue,
+} from "../types";
+
+const POST_COLUMNS =
+  "id, title, content, image_url, video_url, upvotes, created_at, edited_at, user_id, repost_id, flags, tags, comment_count, fixture_id";
+
+const REVISION_COLUMNS =
+  "id, post_id, title, content, image_url, video_url, flags, created_at";
+
+const COMMENT_COLUMNS =
+  "id, post_id, parent_id, content, created_at, user_id, edited_at, deleted_at, hidden_at, upvotes";
+
+const IMAGE_BUCKET = "post-images";
+
+// Escapes LIKE wildcards so a search for "100%" matches literally.
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+export const supabaseBackend: Backend = {
+  async listPosts({
+    sortBy = "created_at",
+    search,
+    flags,
+    flagMatch = "all",
+    tag,
+    ids,
+    userId,
+    fixtureId,
+    cursor,
+    limit = 10,
+  }) {
+    let query = getSupabase()
+      .from("posts")
+      .select(POST_COLUMNS)
+      .order(sortBy, { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    if (search?.trim()) {
+      query = query.ilike("title", `%${escapeLike(search.trim())}%`);
+    }
+    if (flags?.length) {
+      query =
+        flagMatch === "any"
+          ? query.overlaps("flags", flags)
+          : query.contains("flags", flags);
+    }
+    if (tag) {
+      query = query.contains("tags", [normalizeTag(tag)]);
+    }
+    if (ids) {
+      query = query.in("id", ids);
+    }
+    if (userId) {
+      query = query.eq("user_id", userId);
+    }
+    if (fixtureId) {
+      query = query.eq("fixture_id", fixtureId);
+    }
+    if (cursor) {
+      const value = JSON.stringify(String(cursor[sortBy]));
+      const id = JSON.stringify(cursor.id);
+      query = query.or(
+        `${sortBy}.lt.${value},and(${sortBy}.eq.${value},id.lt.${id})`
+      );
+    }
+
+    const { data, error } = await query;
+    if (error) throw toApiError(error);
+
+    const rows = data ?? [];
+    const posts = rows.slice(0, limit);
+    const last = posts[posts.length - 1];
+    return {
+      posts,
+      nextCursor:
+        rows.length > limit && last
+          ? { id: last.id, created_at: last.created_at, upvotes: last.upvotes }
+          : null,
+    };
+  },
+
+  async listPopularTags(limit) {
+    const { data, error } = await getSupabase().rpc("popular_tags", {
+      p_limit: limit,
+    });
+
+    if (error) throw toApiError(error);
+    return (data ?? []).map((row: { tag: string; count: number }) => ({
+      tag: row.tag,
+      count: Number(row.count),
+    }));
+  },
+
+  async searchPosts(query, { limit = 20, offset = 0 }) {
+    const { data, error } = await getSupabase().rpc("search_posts", {
+      p_query: query,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async getPost(id) {
+    const { data, error } = await getSupabase()
+      .from("posts")
+      .select(POST_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      const apiError = toApiError(error);
+      if (apiError.code === "not_found") return null;
+      throw apiError;
+    }
+    return data;
+  },
+
+  async listReferencingPosts(id) {
+    const { data, error } = await getSupabase()
+      .from("posts")
+      .select(POST_COLUMNS)
+      .eq("repost_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async createPost(post) {
+    const { data, error } = await getSupabase()
+      .from("posts")
+      .insert([post])
+      .select(POST_COLUMNS)
+      .single();
+
+    if (error) throw toApiError(error);
+    return data;
+  },
+
+  async updatePost(id, secretKey, changes) {
+    const { error } = await getSupabase().rpc("update_post", {
+      p_post_id: id,
+      p_secret_key: secretKey,
+      p_title: changes.title,
+      p_content: changes.content,
+      p_image_url: changes.image_url,
+      p_video_url: changes.video_url,
+      p_flags: changes.flags,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async deletePost(id, secretKey) {
+    const { error } = await getSupabase().rpc("delete_post", {
+      p_post_id: id,
+      p_secret_key: secretKey,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async restorePost(id, key) {
+    const { error } = await getSupabase().rpc("restore_post", {
+      p_post_id: id,
+      p_key: key,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async listDeletedPosts(userId, authorKey) {
+    const { data, error } = await getSupabase().rpc("list_deleted_posts", {
+      p_user_id: userId,
+      p_author_key: authorKey,
+    });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async listPostRevisions(postId) {
+    const { data, error } = await getSupabase()
+      .from("post_revisions")
+      .select(REVISION_COLUMNS)
+      .eq("post_id", postId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async listComments(postId) {
+    const { data, error } = await getSupabase()
+      .from("comments")
+      .select(COMMENT_COLUMNS)
+      .eq("post_id", postId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async addComment(comment) {
+    const { data, error } = await getSupabase()
+      .from("comments")
+      .insert([comment])
+      .select(COMMENT_COLUMNS)
+      .single();
+
+    if (error) throw toApiError(error);
+    return data;
+  },
+
+  async listUserComments(userId, limit) {
+    const { data, error } = await getSupabase()
+      .from("comments")
+      // The inner join leaves out comments on posts the reader cannot see
+      .select(`${COMMENT_COLUMNS}, post:posts!inner(title)`)
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .is("hidden_at", null)
+      .order("created_at", { ascending: false })
+      .limit(limit)
+      .overrideTypes<
+        (Comment & { post: { title: string } })[],
+        { merge: false }
+      >();
+
+    if (error) throw toApiError(error);
+    return (data ?? []).map(({ post, ...comment }) => ({
+      ...comment,
+      post_title: post.title,
+    }));
+  },
+
+  async getUserProfile(userId, weeks) {
+    const [stats, activity] = await Promise.all([
+      getSupabase().rpc("user_stats", { p_user_id: userId }).single(),
+      getSupabase().rpc("user_activity", {
+        p_user_id: userId,
+        p_weeks: weeks,
+      }),
+    ]);
+
+    if (stats.error) throw toApiError(stats.error);
+    if (activity.error) throw toApiError(activity.error);
+    return {
+      user_id: userId,
+      ...(stats.data as Omit<UserProfile, "user_id" | "activity">),
+      activity: activity.data ?? [],
+    };
+  },
+
+  async updateComment(id, key, content) {
+    const { error } = await getSupabase().rpc("update_comment", {
+      p_comment_id: id,
+      p_key: key,
+      p_content: content,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async deleteComment(id, key) {
+    const { error } = await getSupabase().rpc("delete_comment", {
+      p_comment_id: id,
+      p_key: key,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async castVote(target, voterKey, value) {
+    const { data, error } = await getSupabase().rpc("cast_vote", {
+      p_target_type: target.type,
+      p_target_id: target.id,
+      p_voter_key: voterKey,
+      p_value: value,
+    });
+
+    if (error) throw toApiError(error);
+    return data;
+  },
+
+  async getVotes(postId, voterKey) {
+    const { data, error } = await getSupabase().rpc("get_my_votes", {
+      p_post_id: postId,
+      p_voter_key: voterKey,
+    });
+
+    if (error) throw toApiError(error);
+
+    const votes: PostVotes = { post: 0, comments: {} };
+    (data ?? []).forEach(
+      (vote: { target_type: string; target_id: string; value: VoteValue }) => {
+        if (vote.target_type === "post") votes.post = vote.value;
+        else votes.comments[vote.target_id] = vote.value;
+      }
+    );
+    return votes;
+  },
+
+  async listBookmarks(ownerKey) {
+    const { data, error } = await getSupabase().rpc("list_bookmarks", {
+      p_owner_key: ownerKey,
+    });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async setBookmark(ownerKey, postId, saved) {
+    const { error } = await getSupabase().rpc("set_bookmark", {
+      p_owner_key: ownerKey,
+      p_post_id: postId,
+      p_saved: saved,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async markBookmarkSeen(ownerKey, postId) {
+    const { error } = await getSupabase().rpc("mark_bookmark_seen", {
+      p_owner_key: ownerKey,
+      p_post_id: postId,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async listNotifications(userId, ownerKey, limit) {
+    const { data, error } = await getSupabase().rpc("list_notifications", {
+      p_user_id: userId,
+      p_owner_key: ownerKey,
+      p_limit: limit,
+    });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async countUnreadNotifications(userId, ownerKey) {
+    const { data, error } = await getSupabase().rpc(
+      "count_unread_notifications",
+      { p_user_id: userId, p_owner_key: ownerKey }
+    );
+
+    if (error) throw toApiError(error);
+    return data ?? 0;
+  },
+
+  async markNotificationsRead(userId, ownerKey, ids) {
+    const { error } = await getSupabase().rpc("mark_notifications_read", {
+      p_user_id: userId,
+      p_owner_key: ownerKey,
+      p_ids: ids ?? null,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async getMutedNotificationTypes(userId, ownerKey) {
+    const { data, error } = await getSupabase().rpc(
+      "get_muted_notification_types",
+      { p_user_id: userId, p_owner_key: ownerKey }
+    );
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async setMutedNotificationTypes(userId, ownerKey, muted) {
+    const { error } = await getSupabase().rpc("set_muted_notification_types", {
+      p_user_id: userId,
+      p_owner_key: ownerKey,
+      p_muted: muted,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async listFixtures() {
+    const { data, error } = await getSupabase().rpc("list_fixtures");
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async getFixture(id) {
+    const { data, error } = await getSupabase()
+      .rpc("get_fixture", { p_fixture_id: id })
+      .maybeSingle<Fixture>();
+
+    if (error) {
+      const apiError = toApiError(error);
+      if (apiError.code === "not_found") return null;
+      throw apiError;
+    }
+    return data;
+  },
+
+  async reportContent({ target, reason, details, reporter_key }) {
+    const { error } = await getSupabase().rpc("report_content", {
+      p_target_type: target.type,
+      p_target_id: target.id,
+      p_reporter_key: reporter_key,
+      p_reason: reason,
+      p_details: details,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async listModerationQueue(moderatorKey) {
+    const { data, error } = await getSupabase().rpc("list_moderation_queue", {
+      p_moderator_key: moderatorKey,
+    });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async moderateContent(moderatorKey, target, action) {
+    const { error } = await getSupabase().rpc("moderate_content", {
+      p_moderator_key: moderatorKey,
+      p_target_type: target.type,
+      p_target_id: target.id,
+      p_action: action,
+    });
+
+    if (error) throw toApiError(error);
+  },
+
+  async listModerationLog(moderatorKey, limit) {
+    const { data, error } = await getSupabase().rpc("list_moderation_log", {
+      p_moderator_key: moderatorKey,
+      p_limit: limit,
+    });
+
+    if (error) throw toApiError(error);
+    return data ?? [];
+  },
+
+  async uploadImage(image) {
+    const extension = image.type === "image/png" ? "png" : "jpg";
+    const path = `${generateId()}.${extension}`;
+    const bucket = getSupabase().storage.from(IMAGE_BUCKET);
+
+    // Uploaded objects are never replaced, so they can be cached forever
+    const { error } = await bucket.upload(path, image, {
+      contentType: image.type,
+      cacheControl: "31536000",
+      upsert: false,
+    });
+    if (error) throw toApiError(error);
+
+    return bucket.getPublicUrl(path).data.publicUrl;
+  },
+
+  // Realtime only sends the columns the anon role may select, so payloads
+  // have the same shape as POST_COLUMNS and COMMENT_COLUMNS.
+  subscribeToPost(postId, { onPost, onComment }) {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel(`post:${postId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "posts",
+          filter: `id=eq.${postId}`,
+        },
+        (payload) => onPost(payload.new as Post)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "comments",
+          filter: `post_id=eq.${postId}`,
+        },
+        (payload) => onComment(payload.new as Comment)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "comments",
+          filter: `post_id=eq.${postId}`,
+        },
+        (payload) => onComment(payload.new as Comment)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribeToNewPosts(onPost) {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel("posts:new")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "posts" },
+        (payload) => onPost(payload.new as Post)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
@@ -0,0 +1,20 @@
+import { getBackend } from "./backend";
+import type { Bookmark } from "./types";
+
+// Bookmarks belong to the owner's identity secret. Load the bookmarked posts
+// themselves with listPosts({ ids }).
+export const listBookmarks = (ownerKey: string): Promise<Bookmark[]> =>
+  getBackend().listBookmarks(ownerKey);
+
+export const setBookmark = (
+  ownerKey: string,
+  postId: string,
+  saved: boolean
+): Promise<void> => getBackend().setBookmark(ownerKey, postId, saved);
+
+// Records that the owner has seen the post's current comments, so only
+// comments added after this count as new.
+export const markBookmarkSeen = (
+  ownerKey: string,
+  postId: string
+): Promise<void> => getBackend().markBookmarkSeen(ownerKey, postId);
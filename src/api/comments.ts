@@ -0,0 +1,18 @@
+import { getBackend } from "./backend";
+import type { Comment, NewComment } from "./types";
+
+export const listComments = (postId: string): Promise<Comment[]> =>
+  getBackend().listComments(postId);
+
+export const addComment = (comment: NewComment): Promise<Comment> =>
+  getBackend().addComment(comment);
+
+export const updateComment = (
+  id: string,
+  key: string,
+  content: string
+): Promise<void> => getBackend().updateComment(id, key, content);
+
+// Blanks the comment but keeps it in place so its replies stay attached.
+export const deleteComment = (id: string, key: string): Promise<void> =>
+  getBackend().deleteComment(id, key);
@@ -0,0 +1,54 @@
+export type ApiErrorCode =
+  | "not_found"
+  | "invalid_secret_key"
+  | "invalid_moderator_key"
+  | "validation"
+  | "unknown";
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+
+  constructor(code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+  }
+}
+
+export const isApiError = (
+  error: unknown,
+  code?: ApiErrorCode
+): error is ApiError =>
+  error instanceof ApiError && (code === undefined || error.code === code);
+
+// Maps PostgREST errors and messages raised by our database functions onto
+// a small set of codes the pages can react to.
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  const { code, message } = (error ?? {}) as {
+    code?: string;
+    message?: string;
+  };
+
+  // PGRST116: no rows for a single-row query, 22P02: malformed ID,
+  // P0002: raised by our functions for a missing row
+  if (code === "PGRST116" || code === "22P02" || code === "P0002") {
+    return new ApiError("not_found", "Not found");
+  }
+  if (message === "Invalid secret key") {
+    return new ApiError("invalid_secret_key", message);
+  }
+  if (message === "Invalid moderator key") {
+    return new ApiError("invalid_moderator_key", message);
+  }
+  if (code === "P0001" || code === "23502" || code === "23514") {
+    return new ApiError("validation", message || "Invalid input");
+  }
+  return new ApiError("unknown", message || "Something went wrong");
+};
+
+// Validation messages are written for people, so pages can show them as-is;
+// anything else gets the page's own wording.
+export const errorMessage = (error: unknown, fallback: string) =>
+  isApiError(error, "validation") ? error.message : fallback;
@@ -0,0 +1,11 @@
+import { getBackend } from "./backend";
+import type { Fixture } from "./types";
+
+// Fixtures are entered in the database. A pg_cron job opens the pre-match,
+// live and post-match threads as they fall due; reading fixtures checks as
+// well, so a thread is there as soon as its window opens.
+export const listFixtures = (): Promise<Fixture[]> =>
+  getBackend().listFixtures();
+
+export const getFixture = (id: string): Promise<Fixture | null> =>
+  getBackend().getFixture(id);
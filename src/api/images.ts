@@ -0,0 +1,5 @@
+import { getBackend } from "./backend";
+
+// Stores an already resized image and returns the URL to save on the post.
+export const uploadImage = (image: Blob): Promise<string> =>
+  getBackend().uploadImage(image);
@@ -0,0 +1,12 @@
+export * from "./types";
+export * from "./errors";
+export * from "./posts";
+export * from "./comments";
+export * from "./votes";
+export * from "./bookmarks";
+export * from "./notifications";
+export * from "./users";
+export * from "./fixtures";
+export * from "./images";
+export * from "./moderation";
+export * from "./realtime";
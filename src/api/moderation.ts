@@ -0,0 +1,31 @@
+import { getBackend } from "./backend";
+import type {
+  ModerationAction,
+  ModerationItem,
+  ModerationLogEntry,
+  NewReport,
+  VoteTarget,
+} from "./types";
+
+// Content with this many open reports is hidden until a moderator reviews it
+export const REPORT_HIDE_THRESHOLD = 3;
+
+export const reportContent = (report: NewReport): Promise<void> =>
+  getBackend().reportContent(report);
+
+export const listModerationQueue = (
+  moderatorKey: string
+): Promise<ModerationItem[]> => getBackend().listModerationQueue(moderatorKey);
+
+// Every action is recorded in the moderation log under the key's label.
+export const moderateContent = (
+  moderatorKey: string,
+  target: VoteTarget,
+  action: ModerationAction
+): Promise<void> => getBackend().moderateContent(moderatorKey, target, action);
+
+export const listModerationLog = (
+  moderatorKey: string,
+  limit = 50
+): Promise<ModerationLogEntry[]> =>
+  getBackend().listModerationLog(moderatorKey, limit);
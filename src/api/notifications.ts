@@ -0,0 +1,45 @@
+import { getBackend } from "./backend";
+import type { NotificationType, UserNotification } from "./types";
+
+// Scores that earn the author a notification, for posts and comments alike.
+// Keep in step with notify_on_milestone in the database.
+export const VOTE_MILESTONES = [10, 25, 50, 100, 250, 500, 1000];
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "comment",
+  "reply",
+  "milestone",
+];
+
+// Notifications belong to the identity whose secret the user ID was first
+// written with. Other secrets read nothing, and cannot mark read or mute.
+export const listNotifications = (
+  userId: string,
+  ownerKey: string,
+  limit = 50
+): Promise<UserNotification[]> =>
+  getBackend().listNotifications(userId, ownerKey, limit);
+
+export const countUnreadNotifications = (
+  userId: string,
+  ownerKey: string
+): Promise<number> => getBackend().countUnreadNotifications(userId, ownerKey);
+
+export const markNotificationsRead = (
+  userId: string,
+  ownerKey: string,
+  ids?: string[]
+): Promise<void> => getBackend().markNotificationsRead(userId, ownerKey, ids);
+
+export const getMutedNotificationTypes = (
+  userId: string,
+  ownerKey: string
+): Promise<NotificationType[]> =>
+  getBackend().getMutedNotificationTypes(userId, ownerKey);
+
+export const setMutedNotificationTypes = (
+  userId: string,
+  ownerKey: string,
+  muted: NotificationType[]
+): Promise<void> =>
+  getBackend().setMutedNotificationTypes(userId, ownerKey, muted);
@@ -0,0 +1,76 @@
+import {
+  getBackend,
+  type ListPostsOptions,
+  type SearchOptions,
+} from "./backend";
+import type {
+  DeletedPost,
+  NewPost,
+  Post,
+  PostChanges,
+  PostFeedPage,
+  PostRevision,
+  SearchResult,
+  TagCount,
+} from "./types";
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+// Deleted posts can be restored for this long before they are removed for good
+export const TRASH_RETENTION_DAYS = 30;
+
+// Returns one page of the feed, newest or most upvoted first. Pass the
+// previous page's nextCursor to continue.
+export const listPosts = (
+  options: ListPostsOptions = {}
+): Promise<PostFeedPage> =>
+  getBackend().listPosts({ limit: DEFAULT_PAGE_SIZE, ...options });
+
+// Ranks posts by how well their title, body and comments match the query.
+// Supports "quoted phrases" and -exclusions.
+export const searchPosts = (
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> =>
+  query.trim()
+    ? getBackend().searchPosts(query, { limit: 20, ...options })
+    : Promise.resolve([]);
+
+// The most used hashtags, with how many posts use each.
+export const listPopularTags = (limit = 20): Promise<TagCount[]> =>
+  getBackend().listPopularTags(limit);
+
+// Resolves to null rather than throwing when the post does not exist.
+export const getPost = (id: string): Promise<Post | null> =>
+  getBackend().getPost(id);
+
+export const listReferencingPosts = (id: string): Promise<Post[]> =>
+  getBackend().listReferencingPosts(id);
+
+export const createPost = (post: NewPost): Promise<Post> =>
+  getBackend().createPost(post);
+
+export const updatePost = (
+  id: string,
+  secretKey: string,
+  changes: PostChanges
+): Promise<void> => getBackend().updatePost(id, secretKey, changes);
+
+// Only marks the post as deleted; restorePost undoes it within
+// TRASH_RETENTION_DAYS.
+export const deletePost = (id: string, secretKey: string): Promise<void> =>
+  getBackend().deletePost(id, secretKey);
+
+export const restorePost = (id: string, key: string): Promise<void> =>
+  getBackend().restorePost(id, key);
+
+// The identity's own trash, checked against their identity secret
+export const listDeletedPosts = (
+  userId: string,
+  authorKey: string
+): Promise<DeletedPost[]> => getBackend().listDeletedPosts(userId, authorKey);
+
+// Earlier versions of a post, oldest first. Restoring one is an ordinary
+// updatePost with its fields, which records the current version in turn.
+export const listPostRevisions = (postId: string): Promise<PostRevision[]> =>
+  getBackend().listPostRevisions(postId);
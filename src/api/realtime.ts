@@ -0,0 +1,20 @@
+import {
+  getBackend,
+  type PostSubscriptionHandlers,
+  type Unsubscribe,
+} from "./backend";
+import type { Post } from "./types";
+
+export type { PostSubscriptionHandlers, Unsubscribe };
+
+// Streams changes to a post and its comments until the returned function is
+// called.
+export const subscribeToPost = (
+  postId: string,
+  handlers: PostSubscriptionHandlers
+): Unsubscribe => getBackend().subscribeToPost(postId, handlers);
+
+// Reports each post created after subscribing.
+export const subscribeToNewPosts = (
+  onPost: (post: Post) => void
+): Unsubscribe => getBackend().subscribeToNewPosts(onPost);
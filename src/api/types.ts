@@ -0,0 +1,234 @@
+export type PostSort = "created_at" | "upvotes";
+
+// Whether a post must have all of the selected flags or any one of them
+export type FlagMatch = "all" | "any";
+
+export interface Post {
+  id: string;
+  title: string;
+  content: string;
+  image_url: string;
+  // YouTube, Vimeo or direct MP4 link, or "" for none
+  video_url: string;
+  upvotes: number;
+  created_at: string;
+  // When the post was last edited, or null if it never was
+  edited_at: string | null;
+  user_id: string;
+  repost_id: string | null;
+  flags: string[];
+  // Hashtags found in the title and content, lowercased and without the #
+  tags: string[];
+  comment_count: number;
+  // The match the post is about, if any
+  fixture_id: string | null;
+}
+
+// Position of the last post on a feed page; the next page starts after it.
+export type PostCursor = Pick<Post, "id" | "created_at" | "upvotes">;
+
+export interface PostFeedPage {
+  posts: Post[];
+  nextCursor: PostCursor | null;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// A post in its author's trash
+export interface DeletedPost extends Post {
+  deleted_at: string;
+}
+
+export interface SearchResult extends Post {
+  rank: number;
+  // The best matching comment on the post, if any comment matched
+  matched_comment: string | null;
+}
+
+export interface NewPost {
+  title: string;
+  content: string;
+  image_url: string;
+  video_url: string;
+  secret_key: string;
+  user_id: string;
+  // The author's identity secret, which also lets them restore the post
+  // from their trash
+  author_key: string;
+  repost_id: string | null;
+  flags: string[];
+  fixture_id?: string | null;
+}
+
+export type PostChanges = Pick<
+  Post,
+  "title" | "content" | "image_url" | "video_url" | "flags"
+>;
+
+// A post's fields as they were before an edit replaced them. created_at is
+// when that edit happened.
+export interface PostRevision extends PostChanges {
+  id: string;
+  post_id: string;
+  created_at: string;
+}
+
+export interface Comment {
+  id: string;
+  post_id: string;
+  // The comment this one replies to, or null for a top-level comment
+  parent_id: string | null;
+  // Empty once the comment has been deleted
+  content: string;
+  created_at: string;
+  user_id: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  // Set while moderators have the comment hidden; content is empty then
+  hidden_at: string | null;
+  upvotes: number;
+}
+
+// A comment listed away from its post, e.g. on the author's profile
+export interface UserComment extends Comment {
+  post_title: string;
+}
+
+export interface ActivityWeek {
+  // The Monday the week starts on, as YYYY-MM-DD
+  week: string;
+  posts: number;
+  comments: number;
+}
+
+export interface UserProfile {
+  user_id: string;
+  // The identity's first post or comment, or null if it has neither
+  joined_at: string | null;
+  post_count: number;
+  comment_count: number;
+  // Net score of the identity's posts and comments
+  upvotes: number;
+  // Oldest week first
+  activity: ActivityWeek[];
+}
+
+export interface NewComment {
+  post_id: string;
+  parent_id?: string | null;
+  content: string;
+  user_id: string;
+  // Optional key the commenter can use to edit or delete later
+  secret_key?: string;
+  // The commenter's identity secret, which also authorizes changes
+  author_key: string;
+}
+
+export interface Bookmark {
+  post_id: string;
+  // When the post was saved
+  created_at: string;
+  // The post's comment count when the reader last opened it
+  seen_comment_count: number;
+}
+
+export type MatchThreadKind = "pre" | "live" | "post";
+
+export interface Fixture {
+  id: string;
+  opponent: string;
+  competition: string;
+  kickoff: string;
+  venue: string;
+  // Whether United are the home side
+  is_home: boolean;
+  // Both null until a score is entered
+  united_score: number | null;
+  opponent_score: number | null;
+  // IDs of the generated match threads opened so far
+  threads: Partial<Record<MatchThreadKind, string>>;
+}
+
+export type NotificationType = "comment" | "reply" | "milestone";
+
+export interface UserNotification {
+  id: string;
+  type: NotificationType;
+  post_id: string;
+  post_title: string;
+  // The new comment or reply, or the comment that reached a milestone
+  comment_id: string | null;
+  // The start of that comment's text
+  comment_excerpt: string | null;
+  // Who commented or replied; null for milestones
+  actor_id: string | null;
+  // The score that was reached, for milestones
+  milestone: number | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+// 1 for an upvote, -1 for a downvote, 0 for no vote
+export type VoteValue = -1 | 0 | 1;
+
+// A post or comment, as the subject of a vote or a report
+export interface VoteTarget {
+  type: "post" | "comment";
+  id: string;
+}
+
+// The current voter's votes on a post and its comments
+export interface PostVotes {
+  post: VoteValue;
+  comments: Record<string, VoteValue>;
+}
+
+export type ReportReason =
+  "spam" | "harassment" | "off_topic" | "misinformation" | "other";
+
+export interface NewReport {
+  target: VoteTarget;
+  reason: ReportReason;
+  details: string;
+  // The reporter's identity secret; each identity can report a target once
+  // until a moderator has dealt with it
+  reporter_key: string;
+}
+
+// dismiss closes the reports and leaves the content as it is; restore also
+// unhides it
+export type ModerationAction = "dismiss" | "hide" | "restore" | "delete";
+
+// Reported or hidden content, as moderators see it
+export interface ModerationItem {
+  target_type: VoteTarget["type"];
+  target_id: string;
+  post_id: string;
+  // The post's title, also for comments
+  title: string;
+  // Includes the text of hidden comments
+  content: string;
+  user_id: string;
+  hidden_at: string | null;
+  // Open reports only
+  report_count: number;
+  reasons: ReportReason[];
+  details: string[];
+  last_reported_at: string | null;
+}
+
+export interface ModerationLogEntry {
+  id: string;
+  created_at: string;
+  // The label of the moderator key used
+  moderator: string;
+  action: ModerationAction;
+  target_type: VoteTarget["type"];
+  target_id: string;
+  post_id: string;
+  // The post title or the start of the comment
+  summary: string;
+}
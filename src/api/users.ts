@@ -0,0 +1,14 @@
+import { getBackend } from "./backend";
+import type { UserComment, UserProfile } from "./types";
+
+// Totals for one browser identity, with weekly activity over the last weeks.
+// Their posts come from listPosts({ userId }).
+export const getUserProfile = (
+  userId: string,
+  weeks = 12
+): Promise<UserProfile> => getBackend().getUserProfile(userId, weeks);
+
+export const listUserComments = (
+  userId: string,
+  limit = 50
+): Promise<UserComment[]> => getBackend().listUserComments(userId, limit);
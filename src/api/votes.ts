@@ -0,0 +1,15 @@
+import { getBackend } from "./backend";
+import type { PostVotes, VoteTarget, VoteValue } from "./types";
+
+// Records the voter's up (1), down (-1) or cleared (0) vote, replacing any
+// earlier vote on the same target, and returns the target's new score.
+export const castVote = (
+  target: VoteTarget,
+  voterKey: string,
+  value: VoteValue
+): Promise<number> => getBackend().castVote(target, voterKey, value);
+
+export const getVotes = (
+  postId: string,
+  voterKey: string
+): Promise<PostVotes> => getBackend().getVotes(postId, voterKey);
@@ -0,0 +1,23 @@
+import React from "react";
+import { Link } from "react-router-dom";
+
+interface AuthorLinkProps {
+  userId: string;
+  className?: string;
+  // Defaults to the first 8 characters of the ID
+  children?: React.ReactNode;
+}
+
+// An author label linking to their profile page.
+export const AuthorLink: React.FC<AuthorLinkProps> = ({
+  userId,
+  className = "",
+  children,
+}) => (
+  <Link
+    to={`/user/${encodeURIComponent(userId)}`}
+    className={`hover:text-brand-600 hover:underline ${className}`}
+  >
+    {children ?? userId.substring(0, 8)}
+  </Link>
+);
@@ -0,0 +1,39 @@
+import React from "react";
+
+interface BookmarkButtonProps {
+  saved: boolean;
+  onToggle: () => void;
+  className?: string;
+}
+
+export const BookmarkButton: React.FC<BookmarkButtonProps> = ({
+  saved,
+  onToggle,
+  className = "",
+}) => (
+  <button
+    type="button"
+    onClick={onToggle}
+    aria-pressed={saved}
+    title={saved ? "Remove from saved" : "Save post"}
+    className={`p-2 rounded-md transition-colors ${
+      saved
+        ? "text-brand-600 hover:bg-gray-50"
+        : "text-gray-400 hover:text-brand-600 hover:bg-gray-50"
+    } ${className}`}
+  >
+    <svg
+      className="w-5 h-5"
+      fill={saved ? "currentColor" : "none"}
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+      />
+    </svg>
+  </button>
+);
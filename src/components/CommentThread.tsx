@@ -0,0 +1,303 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { errorMessage, isApiError, type VoteValue } from "../api";
+import { countReplies, type CommentNode } from "../utils/commentTree";
+import { formatTimeAgo } from "../utils/format";
+import { AuthorLink } from "./AuthorLink";
+import { Markdown } from "./Markdown";
+import { VoteButtons } from "./VoteButtons";
+
+// Replies nested deeper than this are reached through "Continue this thread"
+export const MAX_COMMENT_DEPTH = 5;
+
+interface CommentThreadProps {
+  node: CommentNode;
+  postId: string;
+  depth?: number;
+  // Comments by this identity can be changed without entering a key
+  currentUserId: string;
+  onReply: (parentId: string, content: string) => Promise<void>;
+  onEdit: (commentId: string, content: string, key?: string) => Promise<void>;
+  onDelete: (commentId: string, key?: string) => Promise<void>;
+  // The current identity's vote on each comment of the post
+  commentVotes: Record<string, VoteValue>;
+  onVote: (commentId: string, value: VoteValue) => Promise<void>;
+  onReport: (commentId: string) => void;
+}
+
+export const CommentThread: React.FC<CommentThreadProps> = ({
+  node,
+  postId,
+  depth = 0,
+  currentUserId,
+  onReply,
+  onEdit,
+  onDelete,
+  commentVotes,
+  onVote,
+  onReport,
+}) => {
+  const { comment, replies } = node;
+  const isOwn = comment.user_id === currentUserId;
+  const isDeleted = comment.deleted_at !== null;
+  const isHidden = comment.hidden_at !== null;
+  const [collapsed, setCollapsed] = useState(false);
+  const [replying, setReplying] = useState(false);
+  const [reply, setReply] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [mode, setMode] = useState<"view" | "edit" | "delete">("view");
+  const [editText, setEditText] = useState(comment.content);
+  const [key, setKey] = useState("");
+  const [error, setError] = useState("");
+  const [replyError, setReplyError] = useState("");
+
+  const startMode = (next: "edit" | "delete") => {
+    setMode(next);
+    setEditText(comment.content);
+    setKey("");
+    setError("");
+  };
+
+  const handleManage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "edit" && !editText.trim()) {
+      setError("Comment cannot be empty");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const authKey = isOwn ? undefined : key;
+      if (mode === "edit") {
+        await onEdit(comment.id, editText, authKey);
+      } else {
+        await onDelete(comment.id, authKey);
+      }
+      setMode("view");
+    } catch (error) {
+      setError(
+        isApiError(error, "invalid_secret_key")
+          ? "Invalid secret key"
+          : errorMessage(error, "Something went wrong. Please try again.")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await onReply(comment.id, reply);
+      setReply("");
+      setReplyError("");
+      setReplying(false);
+      setCollapsed(false);
+    } catch (error) {
+      // Keep the reply text so it can be retried
+      setReplyError(
+        errorMessage(error, "Could not post your reply. Please try again.")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const hiddenCount = countReplies(node);
+
+  return (
+    <div className={depth > 0 ? "mt-4 pl-4 border-l-2 border-gray-200" : ""}>
+      <div className="flex items-start gap-2">
+        <button
+          type="button"
+          onClick={() => setCollapsed(!collapsed)}
+          className="text-xs text-gray-400 hover:text-brand-600 font-mono mt-1"
+          title={collapsed ? "Expand thread" : "Collapse thread"}
+        >
+          [{collapsed ? "+" : "–"}]
+        </button>
+        <div className="flex-1">
+          {collapsed ? (
+            <div className="text-sm text-gray-500 mt-0.5">
+              <AuthorLink userId={comment.user_id} /> •{" "}
+              {formatTimeAgo(comment.created_at)}
+              {hiddenCount > 0 &&
+                ` • ${hiddenCount} ${
+                  hiddenCount === 1 ? "reply" : "replies"
+                } hidden`}
+            </div>
+          ) : isDeleted ? (
+            <p className="text-gray-400 italic">[deleted]</p>
+          ) : isHidden ? (
+            <p className="text-gray-400 italic">[hidden by moderators]</p>
+          ) : mode !== "view" ? (
+            <form onSubmit={handleManage} className="space-y-2">
+              {mode === "edit" ? (
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  rows={3}
+                  autoFocus
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
+                />
+              ) : (
+                <p className="text-brand-800">Delete this comment?</p>
+              )}
+              {!isOwn && (
+                <input
+                  type="password"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  required
+                  className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                  placeholder="Secret key for this comment"
+                />
+              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-3 py-1 bg-brand-600 text-white rounded-md hover:bg-brand-700 disabled:opacity-50"
+                >
+                  {mode === "edit" ? "Save" : "Delete"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode("view")}
+                  className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="text-gray-700">
+                <Markdown content={comment.content} />
+              </div>
+              <div className="flex items-center gap-3 text-sm text-gray-500 mt-1">
+                <VoteButtons
+                  size="sm"
+                  score={comment.upvotes}
+                  value={commentVotes[comment.id] ?? 0}
+                  onVote={(value) => onVote(comment.id, value)}
+                />
+                <span>
+                  <AuthorLink userId={comment.user_id} /> •{" "}
+                  {formatTimeAgo(comment.created_at)}
+                  {comment.edited_at && (
+                    <span
+                      className="italic"
+                      title={new Date(comment.edited_at).toLocaleString()}
+                    >
+                      {" "}
+                      (edited)
+                    </span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setReplying(!replying)}
+                  className="font-medium hover:text-brand-600"
+                >
+                  Reply
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startMode("edit")}
+                  className="font-medium hover:text-brand-600"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startMode("delete")}
+                  className="font-medium hover:text-brand-600"
+                >
+                  Delete
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onReport(comment.id)}
+                  className="font-medium hover:text-brand-600"
+                >
+                  Report
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!collapsed && (
+        <>
+          {replying && (
+            <form onSubmit={handleReply} className="mt-3 ml-6">
+              <textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                rows={2}
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
+                placeholder="Write a reply..."
+              />
+              {replyError && (
+                <p role="alert" className="text-sm text-red-600">
+                  {replyError}
+                </p>
+              )}
+              <div className="flex gap-2 mt-2">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-3 py-1 bg-brand-600 text-white rounded-md hover:bg-brand-700 disabled:opacity-50"
+                >
+                  Reply
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setReplying(false)}
+                  className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {replies.length > 0 &&
+            (depth + 1 >= MAX_COMMENT_DEPTH ? (
+              <Link
+                to={`/post/${postId}/comments/${comment.id}`}
+                className="inline-block mt-3 ml-6 text-sm font-medium text-brand-600 hover:underline"
+              >
+                Continue this thread →
+              </Link>
+            ) : (
+              <div className="ml-2">
+                {replies.map((child) => (
+                  <CommentThread
+                    key={child.comment.id}
+                    node={child}
+                    postId={postId}
+                    depth={depth + 1}
+                    currentUserId={currentUserId}
+                    onReply={onReply}
+                    onEdit={onEdit}
+                    onDelete={onDelete}
+                    commentVotes={commentVotes}
+                    onVote={onVote}
+                    onReport={onReport}
+                  />
+                ))}
+              </div>
+            ))}
+        </>
+      )}
+    </div>
+  );
+};
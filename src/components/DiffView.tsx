@@ -0,0 +1,50 @@
+import React from "react";
+import { diffWords, type DiffPart } from "../utils/diff";
+
+export type DiffMode = "inline" | "split";
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  mode: DiffMode;
+}
+
+const PART_CLASSES: Record<DiffPart["type"], string> = {
+  same: "",
+  added: "bg-green-100 text-green-900 rounded-sm",
+  removed: "bg-red-100 text-red-900 line-through rounded-sm",
+};
+
+const renderParts = (parts: DiffPart[]) =>
+  parts.map((part, index) =>
+    part.type === "same" ? (
+      <span key={index}>{part.text}</span>
+    ) : (
+      <span key={index} className={PART_CLASSES[part.type]}>
+        {part.text}
+      </span>
+    )
+  );
+
+// Word-level changes between two versions of a text, either inline with
+// removals struck through or as the old and new versions side by side.
+export const DiffView: React.FC<DiffViewProps> = ({ before, after, mode }) => {
+  const parts = diffWords(before, after);
+  const textClass =
+    "whitespace-pre-wrap break-words text-sm text-gray-800 p-3 border rounded-lg bg-gray-50";
+
+  if (mode === "inline") {
+    return <div className={textClass}>{renderParts(parts)}</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div className={textClass}>
+        {renderParts(parts.filter((part) => part.type !== "added"))}
+      </div>
+      <div className={textClass}>
+        {renderParts(parts.filter((part) => part.type !== "removed"))}
+      </div>
+    </div>
+  );
+};
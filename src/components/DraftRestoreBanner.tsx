@@ -0,0 +1,47 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { formatTimeAgo } from "../utils/format";
+import type { Draft } from "../utils/drafts";
+
+interface DraftRestoreBannerProps {
+  draft: Draft;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+// Offers to bring back a draft left behind by an earlier visit to the form.
+export const DraftRestoreBanner: React.FC<DraftRestoreBannerProps> = ({
+  draft,
+  onRestore,
+  onDiscard,
+}) => (
+  <div className="mb-6 bg-brand-50 border border-brand-200 rounded-lg p-4">
+    <p className="font-semibold text-brand-800">You have an unsaved draft</p>
+    <p className="text-sm text-gray-700 mb-3">
+      {draft.title.trim() ? `"${draft.title}"` : "Untitled draft"}, last changed{" "}
+      {formatTimeAgo(draft.updated_at).toLowerCase()}
+    </p>
+    <div className="flex flex-wrap items-center gap-3">
+      <button
+        type="button"
+        onClick={onRestore}
+        className="bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-brand-700 transition-colors"
+      >
+        Restore draft
+      </button>
+      <button
+        type="button"
+        onClick={onDiscard}
+        className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        Discard
+      </button>
+      <Link
+        to="/drafts"
+        className="text-sm text-brand-600 hover:text-brand-700 hover:underline"
+      >
+        All drafts
+      </Link>
+    </div>
+  </div>
+);
@@ -0,0 +1,105 @@
+import React from "react";
+import type { FlagMatch, PostSort } from "../api";
+import { POST_FLAGS } from "../utils/flags";
+
+interface FeedControlsProps {
+  searchTerm: string;
+  onSearchTermChange: (searchTerm: string) => void;
+  sortBy: PostSort;
+  onSortByChange: (sortBy: PostSort) => void;
+  filterFlags: string[];
+  onFilterFlagsChange: (flags: string[]) => void;
+  flagMatch: FlagMatch;
+  onFlagMatchChange: (flagMatch: FlagMatch) => void;
+  // Shown below the controls, e.g. a link to full-text search
+  children?: React.ReactNode;
+}
+
+// Title search, sort order and flag filters for a list of posts.
+export const FeedControls: React.FC<FeedControlsProps> = ({
+  searchTerm,
+  onSearchTermChange,
+  sortBy,
+  onSortByChange,
+  filterFlags,
+  onFilterFlagsChange,
+  flagMatch,
+  onFlagMatchChange,
+  children,
+}) => {
+  const toggleFlag = (flag: string) =>
+    onFilterFlagsChange(
+      filterFlags.includes(flag)
+        ? filterFlags.filter((f) => f !== flag)
+        : [...filterFlags, flag]
+    );
+
+  return (
+    <div className="bg-brand-600 rounded-lg shadow-sm border border-brand-500 p-6 mb-6">
+      <div className="flex flex-col md:flex-row gap-4 mb-4">
+        <input
+          type="text"
+          placeholder="Search posts by title..."
+          value={searchTerm}
+          onChange={(e) => onSearchTermChange(e.target.value)}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
+        />
+        <select
+          value={sortBy}
+          onChange={(e) => onSortByChange(e.target.value as PostSort)}
+          className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
+        >
+          <option value="created_at">Latest Posts</option>
+          <option value="upvotes">Most Popular</option>
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {POST_FLAGS.map((flag) => (
+          <button
+            key={flag.value}
+            type="button"
+            onClick={() => toggleFlag(flag.value)}
+            aria-pressed={filterFlags.includes(flag.value)}
+            className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+              filterFlags.includes(flag.value)
+                ? "bg-white text-brand-700 border-white"
+                : "text-white border-brand-300 hover:bg-brand-700"
+            }`}
+          >
+            {flag.emoji} {flag.plural}
+          </button>
+        ))}
+        {filterFlags.length > 1 && (
+          <div className="flex items-center gap-1 ml-2 text-sm text-white">
+            Match
+            {(["any", "all"] as const).map((match) => (
+              <button
+                key={match}
+                type="button"
+                onClick={() => onFlagMatchChange(match)}
+                aria-pressed={flagMatch === match}
+                className={`px-2 py-0.5 rounded ${
+                  flagMatch === match
+                    ? "bg-white text-brand-700 font-medium"
+                    : "hover:bg-brand-700"
+                }`}
+              >
+                {match === "any" ? "any" : "all"}
+              </button>
+            ))}
+          </div>
+        )}
+        {filterFlags.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onFilterFlagsChange([])}
+            className="ml-auto text-sm text-white hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {children && <div className="mt-4">{children}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import type { Post } from "../api";
+import { formatTimeAgo } from "../utils/format";
+import type { FeedLayout } from "../utils/preferences";
+import { parseVideoUrl } from "../utils/video";
+import { AuthorLink } from "./AuthorLink";
+import { BookmarkButton } from "./BookmarkButton";
+import { Markdown } from "./Markdown";
+import { TagList } from "./TagList";
+
+// Grid tiles without an image fall back to the club crest
+const PLACEHOLDER_IMAGE =
+  "https://upload.wikimedia.org/wikipedia/en/thumb/7/7a/Manchester_United_FC_crest.svg/1200px-Manchester_United_FC_crest.svg.png";
+
+const hasVideo = (post: Post) => parseVideoUrl(post.video_url) !== null;
+
+const truncateText = (text: string, maxWords: number) => {
+  const words = text.split(" ");
+  if (words.length <= maxWords) return text;
+  return words.slice(0, maxWords).join(" ") + "...";
+};
+
+// Flags and the video badge
+const PostBadges: React.FC<{ post: Post }> = ({ post }) => {
+  if (post.flags.length === 0 && !hasVideo(post)) return null;
+
+  return (
+    <div className="flex items-center gap-2 mb-3">
+      {hasVideo(post) && (
+        <span className="inline-flex items-center gap-1 px-2 py-1 bg-black/80 text-white text-xs rounded-full font-medium">
+          <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M6.3 2.841A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+          </svg>
+          Video
+        </span>
+      )}
+      {post.flags.map((flag) => (
+        <span
+          key={flag}
+          className="inline-block px-2 py-1 bg-brand-100 text-brand-800 text-xs rounded-full font-medium"
+        >
+          {flag === "Question"}
+          {flag === "Opinion"}
+          {flag === "News"}
+          {flag === "Discussion"}
+          {flag}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+// Comments on a bookmarked post since the reader last opened it
+const NewCommentsBadge: React.FC<{ count: number }> = ({ count }) =>
+  count > 0 ? (
+    <span className="inline-block px-2 py-0.5 bg-brand-600 text-white text-xs rounded-full font-medium">
+      {count} new
+    </span>
+  ) : null;
+
+interface FeedPostProps {
+  post: Post;
+  layout: FeedLayout;
+  saved?: boolean;
+  // Leave out to hide the bookmark button
+  onToggleSaved?: () => void;
+  newComments?: number;
+}
+
+// One post on the home feed, drawn in the reader's chosen layout.
+export const FeedPost: React.FC<FeedPostProps> = ({
+  post,
+  layout,
+  saved = false,
+  onToggleSaved,
+  newComments = 0,
+}) => {
+  const bookmark = (className = "") =>
+    onToggleSaved && (
+      <BookmarkButton
+        saved={saved}
+        onToggle={onToggleSaved}
+        className={className}
+      />
+    );
+
+  if (layout === "compact") {
+    return (
+      <div className="flex items-center pr-2 hover:bg-gray-50 transition-colors">
+        <div className="flex flex-1 min-w-0 items-center gap-4 px-4 py-3">
+          <span className="w-12 flex-shrink-0 text-center font-bold text-brand-600">
+            {post.upvotes}
+          </span>
+          <span className="flex-1 min-w-0">
+            <Link
+              to={`/post/${post.id}`}
+              className="block font-medium text-gray-900 truncate hover:text-brand-600"
+            >
+              {post.title}
+            </Link>
+            <span className="block text-xs text-gray-500">
+              {formatTimeAgo(post.created_at)} • {post.comment_count} comments •
+              By <AuthorLink userId={post.user_id} />
+              {hasVideo(post) && " • Video"}
+            </span>
+          </span>
+          <NewCommentsBadge count={newComments} />
+        </div>
+        {bookmark()}
+      </div>
+    );
+  }
+
+  if (layout === "grid") {
+    return (
+      <div className="relative">
+        <Link
+          to={`/post/${post.id}`}
+          className="flex flex-col h-full bg-surface rounded-lg shadow-sm border border-brand-600 overflow-hidden hover:shadow-md transition-shadow"
+        >
+          <img
+            src={post.image_url || PLACEHOLDER_IMAGE}
+            alt={post.image_url ? "Post image" : ""}
+            className={`w-full aspect-square ${
+              post.image_url ? "object-cover" : "object-contain p-8 bg-gray-50"
+            }`}
+            onError={(e) => {
+              e.currentTarget.src = PLACEHOLDER_IMAGE;
+            }}
+          />
+          <div className="p-3 flex-1 flex flex-col">
+            <h2 className="font-bold text-gray-900 line-clamp-2 mb-2">
+              {post.title}
+            </h2>
+            <div className="mt-auto text-xs text-gray-500">
+              <span className="text-brand-600 font-medium">
+                {post.upvotes} upvotes
+              </span>{" "}
+              • {post.comment_count} comments • {formatTimeAgo(post.created_at)}
+            </div>
+            {newComments > 0 && (
+              <div className="mt-2">
+                <NewCommentsBadge count={newComments} />
+              </div>
+            )}
+          </div>
+        </Link>
+        {bookmark("absolute top-2 right-2 bg-surface/90 shadow-sm")}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative bg-surface rounded-lg shadow-sm border hover:shadow-md transition-shadow border-brand-600">
+      {bookmark("absolute top-4 right-4")}
+      <div className={onToggleSaved ? "p-6 pr-14" : "p-6"}>
+        <PostBadges post={post} />
+
+        <div className="flex gap-4">
+          {/* Post Image */}
+          {post.image_url && (
+            <div className="flex-shrink-0">
+              <img
+                src={post.image_url}
+                alt="Post image"
+                className="w-24 h-24 object-cover rounded-lg"
+                onError={(e) => {
+                  e.currentTarget.style.display = "none";
+                }}
+              />
+            </div>
+          )}
+
+          {/* Post Content */}
+          <div className="flex-1">
+            <Link to={`/post/${post.id}`} className="block">
+              <h2 className="text-xl font-bold text-gray-900 hover:text-brand-600 mb-2 transition-colors">
+                {post.title}
+              </h2>
+
+              {/* Post Description */}
+              {post.content && (
+                <div className="text-gray-700 mb-3 leading-relaxed">
+                  <Markdown content={truncateText(post.content, 25)} compact />
+                </div>
+              )}
+            </Link>
+
+            {/* Post Meta Information */}
+            <div className="flex items-center gap-6 text-sm text-gray-500">
+              <span className="flex items-center gap-1">
+                <svg
+                  className="w-4 h-4"
+                  fill="currentColor"
+                  viewBox="0 0 20 20"
+                >
+                  <path
+                    fillRule="evenodd"
+                    d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+                {formatTimeAgo(post.created_at)}
+              </span>
+
+              <span className="flex items-center gap-1 text-brand-600">
+                <svg
+                  className="w-4 h-4"
+                  fill="currentColor"
+                  viewBox="0 0 20 20"
+                >
+                  <path
+                    fillRule="evenodd"
+                    d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+                <span className="font-medium">{post.upvotes}</span>
+                <span className="ml-1">upvotes</span>
+              </span>
+
+              <span className="flex items-center gap-1">
+                <svg
+                  className="w-4 h-4"
+                  fill="currentColor"
+                  viewBox="0 0 20 20"
+                >
+                  <path
+                    fillRule="evenodd"
+                    d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+                <span className="font-medium">{post.comment_count}</span>
+                <span className="ml-1">comments</span>
+                <NewCommentsBadge count={newComments} />
+              </span>
+
+              <span className="flex items-center gap-1">
+                <svg
+                  className="w-4 h-4"
+                  fill="currentColor"
+                  viewBox="0 0 20 20"
+                >
+                  <path
+                    fillRule="evenodd"
+                    d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+                <span>
+                  By <AuthorLink userId={post.user_id} />
+                </span>
+              </span>
+            </div>
+            <TagList tags={post.tags} className="mt-3" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { getFixture, type Fixture, type MatchThreadKind } from "../api";
+import {
+  MATCH_THREAD_LABELS,
+  fixtureTeams,
+  formatCountdown,
+  formatKickoff,
+  formatScore,
+  matchPhase,
+} from "../utils/fixtures";
+
+interface FixtureHeaderProps {
+  fixtureId: string;
+  // The post being shown, so its own thread is not linked
+  postId: string;
+}
+
+// The match a post is about: teams, score or a countdown to kickoff, and
+// links to the match threads.
+export const FixtureHeader: React.FC<FixtureHeaderProps> = ({
+  fixtureId,
+  postId,
+}) => {
+  const [fixture, setFixture] = useState<Fixture | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    let cancelled = false;
+    getFixture(fixtureId)
+      .then((fixture) => {
+        if (!cancelled) setFixture(fixture);
+      })
+      .catch((error) => console.error("Error fetching fixture:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [fixtureId]);
+
+  const phase = fixture ? matchPhase(fixture.kickoff, now) : null;
+
+  // Tick every second until kickoff, then once a minute to notice full time
+  useEffect(() => {
+    if (!phase || phase === "finished") return;
+    const timer = setInterval(
+      () => setNow(Date.now()),
+      phase === "upcoming" ? 1000 : 60_000
+    );
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  if (!fixture) return null;
+
+  const [home, away] = fixtureTeams(fixture);
+  const score = formatScore(fixture);
+  const threads = (
+    Object.entries(fixture.threads) as [MatchThreadKind, string][]
+  ).filter(([, id]) => id !== postId);
+
+  return (
+    <div className="bg-gray-900 text-gray-50 rounded-lg shadow-sm p-4 mb-4">
+      <div className="flex items-center justify-between text-xs uppercase tracking-wide opacity-80 mb-2">
+        <span>{fixture.competition}</span>
+        <span>{fixture.venue}</span>
+      </div>
+      <div className="flex items-center justify-center gap-4 text-lg font-bold">
+        <span className="flex-1 text-right">{home}</span>
+        <span className="px-3 py-1 rounded bg-brand-600 text-white tabular-nums">
+          {score ?? "vs"}
+        </span>
+        <span className="flex-1">{away}</span>
+      </div>
+      <p className="text-center text-sm mt-2">
+        {phase === "upcoming" ? (
+          <>
+            Kickoff in{" "}
+            <span className="font-semibold tabular-nums">
+              {formatCountdown(new Date(fixture.kickoff).getTime() - now)}
+            </span>{" "}
+            · {formatKickoff(fixture.kickoff)}
+          </>
+        ) : phase === "live" ? (
+          <span className="font-semibold text-brand-500">● Live</span>
+        ) : (
+          <>
+            {score ? "Full time" : "Played"} · {formatKickoff(fixture.kickoff)}
+          </>
+        )}
+      </p>
+      <div className="flex flex-wrap justify-center gap-3 mt-3 text-sm">
+        {threads.map(([kind, id]) => (
+          <Link key={kind} to={`/post/${id}`} className="underline">
+            {MATCH_THREAD_LABELS[kind]}
+          </Link>
+        ))}
+        <Link to={`/?fixture=${fixture.id}`} className="underline">
+          All posts about this match
+        </Link>
+      </div>
+    </div>
+  );
+};
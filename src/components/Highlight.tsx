@@ -0,0 +1,30 @@
+import React from "react";
+import { buildHighlightPattern } from "../utils/search";
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+export const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  const pattern = buildHighlightPattern(terms);
+  if (!pattern) return <>{text}</>;
+
+  // split() with a capturing group keeps the matches at odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            className="bg-yellow-400/40 text-inherit rounded px-0.5"
+          >
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
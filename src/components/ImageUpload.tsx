@@ -0,0 +1,178 @@
+import React, { useRef, useState } from "react";
+import { isApiError, uploadImage } from "../api";
+import { ACCEPTED_IMAGE_TYPES, prepareImage } from "../utils/image";
+
+interface ImageUploadProps {
+  value: string;
+  onChange: (url: string) => void;
+  // Lets the form hold off submitting until an upload has finished
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+// Picks an image by drag and drop, file picker or URL. Files are resized and
+// stripped of metadata in the browser, then uploaded straight away so the
+// form only has to save the resulting URL.
+export const ImageUpload: React.FC<ImageUploadProps> = ({
+  value,
+  onChange,
+  onUploadingChange,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [urlInput, setUrlInput] = useState("");
+  const [error, setError] = useState("");
+
+  const setUploadingState = (next: boolean) => {
+    setUploading(next);
+    onUploadingChange?.(next);
+  };
+
+  const handleFile = async (file: File) => {
+    setError("");
+    setUploadingState(true);
+    try {
+      const image = await prepareImage(file);
+      onChange(await uploadImage(image));
+    } catch (error) {
+      console.error("Error uploading image:", error);
+      setError(
+        isApiError(error) || !(error instanceof Error)
+          ? "The image could not be uploaded. Please try again."
+          : error.message
+      );
+    } finally {
+      setUploadingState(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !uploading) handleFile(file);
+  };
+
+  const handleUseUrl = () => {
+    const url = urlInput.trim();
+    if (!url) return;
+    try {
+      new URL(url);
+    } catch {
+      setError("Enter a full image URL, starting with https://");
+      return;
+    }
+    setError("");
+    setUrlInput("");
+    onChange(url);
+  };
+
+  const chooseFile = () => inputRef.current?.click();
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      {value ? (
+        <div
+          className={`flex items-start gap-4 p-2 rounded-lg ${
+            dragging ? "bg-brand-50" : ""
+          }`}
+        >
+          <img
+            src={value}
+            alt="Post image"
+            className="w-32 h-32 object-cover rounded-lg border"
+          />
+          <div className="flex flex-col gap-2">
+            <button
+              type="button"
+              onClick={chooseFile}
+              disabled={uploading}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              {uploading ? "Uploading..." : "Replace"}
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange("")}
+              disabled={uploading}
+              className="px-4 py-2 border border-red-300 text-red-600 rounded-md hover:bg-red-500/10 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <button
+            type="button"
+            onClick={chooseFile}
+            disabled={uploading}
+            className={`w-full flex flex-col items-center justify-center px-4 py-8 border-2 border-dashed rounded-lg transition-colors ${
+              dragging
+                ? "border-brand-500 bg-brand-50"
+                : "border-gray-300 hover:border-brand-400"
+            }`}
+          >
+            {uploading ? (
+              <span className="flex items-center text-gray-600">
+                <span className="animate-spin rounded-full h-5 w-5 border-b-2 border-brand-600 mr-2"></span>
+                Uploading...
+              </span>
+            ) : (
+              <>
+                <span className="font-medium text-gray-700">
+                  Drag an image here or click to choose a file
+                </span>
+                <span className="text-xs text-gray-500 mt-1">
+                  JPEG, PNG or WebP, up to 10 MB
+                </span>
+              </>
+            )}
+          </button>
+          <div className="flex gap-2 mt-2">
+            <input
+              type="url"
+              value={urlInput}
+              onChange={(e) => setUrlInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleUseUrl();
+                }
+              }}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder="...or paste an image URL"
+            />
+            <button
+              type="button"
+              onClick={handleUseUrl}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Use URL
+            </button>
+          </div>
+        </>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Allow choosing the same file again after an error
+          e.target.value = "";
+          if (file) handleFile(file);
+        }}
+        className="hidden"
+      />
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from "react";
+import type { Blocker } from "react-router-dom";
+
+interface LeaveDraftDialogProps {
+  blocker: Blocker;
+  title: string;
+  // Called before leaving when the user chooses to throw the draft away
+  onDiscard: () => void;
+}
+
+// Asks before leaving a form with unsaved changes. The changes are already
+// kept as a draft, so leaving is safe; discarding removes the draft too.
+export const LeaveDraftDialog: React.FC<LeaveDraftDialogProps> = ({
+  blocker,
+  title,
+  onDiscard,
+}) => {
+  if (blocker.state !== "blocked") return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="leave-draft-title"
+    >
+      <div className="bg-surface rounded-lg shadow-xl border max-w-md w-full p-6">
+        <h2
+          id="leave-draft-title"
+          className="text-xl font-bold text-gray-900 mb-2"
+        >
+          {title}
+        </h2>
+        <p className="text-gray-600 mb-6">
+          Your changes are kept as a draft, so you can pick up where you left
+          off from the Drafts page.
+        </p>
+        <div className="flex flex-wrap justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              onDiscard();
+              blocker.proceed();
+            }}
+            className="px-4 py-2 text-sm font-medium text-red-600 hover:bg-gray-50 rounded-lg transition-colors"
+          >
+            Discard draft
+          </button>
+          <button
+            type="button"
+            onClick={() => blocker.proceed()}
+            className="px-4 py-2 text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+          >
+            Keep draft and leave
+          </button>
+          <button
+            type="button"
+            onClick={() => blocker.reset()}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 rounded-lg transition-colors"
+          >
+            Keep editing
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+
+// The subset of Markdown users may write. Anything else (images, raw HTML)
+// is reduced to its text.
+const ALLOWED_ELEMENTS = [
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "p",
+  "br",
+  "hr",
+  "strong",
+  "em",
+  "del",
+  "a",
+  "blockquote",
+  "ul",
+  "ol",
+  "li",
+  "input",
+  "code",
+  "pre",
+  "table",
+  "thead",
+  "tbody",
+  "tr",
+  "th",
+  "td",
+];
+
+// Feed previews sit inside a link and are clamped to a few lines, so only
+// inline formatting is kept there.
+const COMPACT_ELEMENTS = ["p", "br", "strong", "em", "del", "code"];
+
+const components: Components = {
+  h1: ({ children }) => (
+    <h1 className="text-2xl font-bold mt-4 mb-2 first:mt-0">{children}</h1>
+  ),
+  h2: ({ children }) => (
+    <h2 className="text-xl font-bold mt-4 mb-2 first:mt-0">{children}</h2>
+  ),
+  h3: ({ children }) => (
+    <h3 className="text-lg font-semibold mt-3 mb-2 first:mt-0">{children}</h3>
+  ),
+  h4: ({ children }) => <h4 className="font-semibold mt-3 mb-1">{children}</h4>,
+  h5: ({ children }) => <h5 className="font-semibold mt-3 mb-1">{children}</h5>,
+  h6: ({ children }) => <h6 className="font-semibold mt-3 mb-1">{children}</h6>,
+  p: ({ children }) => (
+    <p className="mb-3 last:mb-0 whitespace-pre-wrap">{children}</p>
+  ),
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="text-brand-600 hover:underline"
+    >
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-brand-200 pl-3 mb-3 text-gray-600 italic">
+      {children}
+    </blockquote>
+  ),
+  ul: ({ children }) => (
+    <ul className="list-disc pl-6 mb-3 space-y-1">{children}</ul>
+  ),
+  ol: ({ children }) => (
+    <ol className="list-decimal pl-6 mb-3 space-y-1">{children}</ol>
+  ),
+  code: ({ children }) => (
+    <code className="bg-gray-100 rounded px-1 font-mono text-sm">
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => (
+    <pre className="bg-gray-100 rounded-md p-3 mb-3 overflow-x-auto text-sm [&>code]:p-0">
+      {children}
+    </pre>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto mb-3">
+      <table className="min-w-full border border-gray-200 text-sm">
+        {children}
+      </table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th
+      style={style}
+      className="border border-gray-200 bg-gray-50 px-2 py-1 text-left font-semibold"
+    >
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="border border-gray-200 px-2 py-1">
+      {children}
+    </td>
+  ),
+  hr: () => <hr className="my-4 border-gray-200" />,
+};
+
+interface MarkdownProps {
+  content: string;
+  // Inline formatting only, for previews
+  compact?: boolean;
+}
+
+// Renders user-written Markdown. Raw HTML is never interpreted and the
+// output is sanitized, so posts cannot inject scripts or styles.
+export const Markdown: React.FC<MarkdownProps> = ({
+  content,
+  compact = false,
+}) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm]}
+    rehypePlugins={[rehypeSanitize]}
+    allowedElements={compact ? COMPACT_ELEMENTS : ALLOWED_ELEMENTS}
+    unwrapDisallowed
+    components={components}
+  >
+    {content}
+  </ReactMarkdown>
+);
@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+import { Markdown } from "./Markdown";
+
+type MarkdownEditorProps = Omit<
+  React.TextareaHTMLAttributes<HTMLTextAreaElement>,
+  "value"
+> & {
+  value: string;
+};
+
+// A textarea with a Write/Preview toggle showing how the Markdown will look
+// once posted.
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  value,
+  className,
+  rows = 8,
+  ...textareaProps
+}) => {
+  const [previewing, setPreviewing] = useState(false);
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+      active ? "bg-brand-600 text-white" : "text-gray-600 hover:bg-gray-100"
+    }`;
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 mb-2">
+        <button
+          type="button"
+          onClick={() => setPreviewing(false)}
+          className={tabClass(!previewing)}
+        >
+          Write
+        </button>
+        <button
+          type="button"
+          onClick={() => setPreviewing(true)}
+          className={tabClass(previewing)}
+        >
+          Preview
+        </button>
+        <span className="ml-auto text-xs text-gray-500">
+          Markdown supported
+        </span>
+      </div>
+      {previewing ? (
+        <div
+          className="px-4 py-3 border border-gray-300 rounded-lg text-gray-700 overflow-auto"
+          style={{ minHeight: `${rows * 1.5 + 1.5}rem` }}
+        >
+          {value.trim() ? (
+            <Markdown content={value} />
+          ) : (
+            <p className="text-gray-400 italic">Nothing to preview</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          value={value}
+          rows={rows}
+          className={className}
+          {...textareaProps}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from "react";
+import { usePreferences } from "../context/PreferencesContext";
+import { COLOR_SCHEMES, FEED_LAYOUTS, THEME_MODES } from "../utils/preferences";
+
+// Nav button opening a small panel of appearance settings. Changes apply
+// immediately and are saved in this browser.
+export const PreferencesPanel: React.FC = () => {
+  const { preferences, updatePreferences } = usePreferences();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else or pressing Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [open]);
+
+  const optionClass = (active: boolean) =>
+    `flex-1 px-3 py-2 text-sm rounded-md border transition-colors ${
+      active
+        ? "border-brand-600 bg-brand-50 text-brand-700 font-medium"
+        : "border-gray-300 text-gray-700 hover:bg-gray-50"
+    }`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center bg-brand-500 hover:bg-brand-700 text-white p-2 rounded-lg transition-colors shadow-md"
+        title="Appearance"
+      >
+        <svg
+          className="w-6 h-6"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
+          />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 z-20 bg-surface rounded-lg shadow-lg border p-4 space-y-4 text-gray-900">
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Theme</h3>
+            <div className="flex gap-2">
+              {THEME_MODES.map((mode) => (
+                <button
+                  key={mode.value}
+                  type="button"
+                  onClick={() => updatePreferences({ theme: mode.value })}
+                  className={optionClass(preferences.theme === mode.value)}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Club colors</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {COLOR_SCHEMES.map((scheme) => (
+                <button
+                  key={scheme.value}
+                  type="button"
+                  onClick={() => updatePreferences({ scheme: scheme.value })}
+                  className={`flex items-center gap-2 text-left ${optionClass(
+                    preferences.scheme === scheme.value
+                  )}`}
+                >
+                  <span
+                    className="w-4 h-4 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: scheme.swatch }}
+                  />
+                  {scheme.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Feed layout</h3>
+            <div className="space-y-2">
+              {FEED_LAYOUTS.map((layout) => (
+                <button
+                  key={layout.value}
+                  type="button"
+                  onClick={() =>
+                    updatePreferences({ feedLayout: layout.value })
+                  }
+                  className={`w-full text-left ${optionClass(
+                    preferences.feedLayout === layout.value
+                  )}`}
+                >
+                  <span className="block">{layout.label}</span>
+                  <span className="block text-xs text-gray-500">
+                    {layout.description}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
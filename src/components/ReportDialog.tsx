@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import {
+  isApiError,
+  reportContent,
+  type ReportReason,
+  type VoteTarget,
+} from "../api";
+import { useIdentity } from "../context/IdentityContext";
+import { REPORT_REASONS } from "../utils/reports";
+
+const MAX_DETAILS_LENGTH = 500;
+
+interface ReportDialogProps {
+  target: VoteTarget;
+  onClose: () => void;
+}
+
+// Lets a reader flag a post or comment for the moderators, with a reason.
+export const ReportDialog: React.FC<ReportDialogProps> = ({
+  target,
+  onClose,
+}) => {
+  const { identity } = useIdentity();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) {
+      setError("Choose a reason");
+      return;
+    }
+    if (reason === "other" && !details.trim()) {
+      setError("Tell us what is wrong");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      await reportContent({
+        target,
+        reason,
+        details,
+        reporter_key: identity.secret,
+      });
+      setSent(true);
+    } catch (error) {
+      if (isApiError(error, "validation")) {
+        setError(error.message);
+      } else if (isApiError(error, "not_found")) {
+        setError("This has already been removed.");
+      } else {
+        console.error("Error reporting content:", error);
+        setError("Something went wrong. Please try again.");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="report-title"
+    >
+      <div className="bg-surface rounded-lg shadow-xl border max-w-md w-full p-6">
+        <h2 id="report-title" className="text-xl font-bold text-gray-900 mb-2">
+          Report this {target.type}
+        </h2>
+
+        {sent ? (
+          <>
+            <p className="text-gray-600 mb-6">
+              Thanks for letting us know. Moderators will take a look, and
+              content reported by several people is hidden until they do.
+            </p>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={onClose}
+                autoFocus
+                className="px-4 py-2 text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <fieldset className="space-y-2">
+              <legend className="text-sm text-gray-600 mb-2">
+                What is wrong with it?
+              </legend>
+              {REPORT_REASONS.map((option) => (
+                <label
+                  key={option.value}
+                  className={`flex items-start p-3 border rounded-lg cursor-pointer transition-colors ${
+                    reason === option.value
+                      ? "border-brand-500 bg-brand-50"
+                      : "border-gray-300 hover:border-brand-300"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="reason"
+                    value={option.value}
+                    checked={reason === option.value}
+                    onChange={() => setReason(option.value)}
+                    className="mt-1 mr-3"
+                  />
+                  <span>
+                    <span className="block font-medium text-gray-900">
+                      {option.label}
+                    </span>
+                    <span className="block text-sm text-gray-500">
+                      {option.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            <div>
+              <textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                maxLength={MAX_DETAILS_LENGTH}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
+                placeholder={
+                  reason === "other"
+                    ? "What is wrong with it?"
+                    : "Anything else moderators should know (optional)"
+                }
+              />
+              <p className="text-xs text-gray-500 text-right">
+                {details.length}/{MAX_DETAILS_LENGTH}
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {submitting ? "Sending..." : "Send report"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { listPopularTags, type TagCount } from "../api";
+
+const SIZE_CLASSES = ["text-xs", "text-sm", "text-base", "text-lg", "text-xl"];
+
+interface TagCloudProps {
+  // The tag the feed is currently filtered by
+  selected: string;
+}
+
+// The most popular hashtags, sized by how many posts use them.
+export const TagCloud: React.FC<TagCloudProps> = ({ selected }) => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+
+  useEffect(() => {
+    listPopularTags(20)
+      .then(setTags)
+      .catch((error) => console.error("Error fetching popular tags:", error));
+  }, []);
+
+  if (tags.length === 0) return null;
+
+  const max = Math.max(...tags.map((tag) => tag.count));
+  // Alphabetical order reads better than popularity once sizes show it
+  const sorted = [...tags].sort((a, b) => a.tag.localeCompare(b.tag));
+
+  return (
+    <div className="bg-surface rounded-lg shadow-sm border p-4 mb-6">
+      <h2 className="text-sm font-semibold text-gray-700 mb-2">Popular tags</h2>
+      <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+        {sorted.map(({ tag, count }) => (
+          <Link
+            key={tag}
+            to={tag === selected ? "/" : `/?tag=${encodeURIComponent(tag)}`}
+            title={`${count} ${count === 1 ? "post" : "posts"}`}
+            className={`${
+              SIZE_CLASSES[
+                Math.round((count / max) * (SIZE_CLASSES.length - 1))
+              ]
+            } ${
+              tag === selected
+                ? "font-bold text-brand-700"
+                : "text-brand-600 hover:underline"
+            }`}
+          >
+            #{tag}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from "react";
+import { Link } from "react-router-dom";
+
+interface TagListProps {
+  tags: string[];
+  className?: string;
+}
+
+// Hashtag chips linking to the home feed filtered by that tag.
+export const TagList: React.FC<TagListProps> = ({ tags, className = "" }) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <Link
+          key={tag}
+          to={`/?tag=${encodeURIComponent(tag)}`}
+          className="text-sm font-medium text-brand-600 hover:underline"
+        >
+          #{tag}
+        </Link>
+      ))}
+    </div>
+  );
+};
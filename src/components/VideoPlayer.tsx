@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchVimeoThumbnail,
+  youtubeThumbnailUrl,
+  type VideoSource,
+} from "../utils/video";
+
+interface VideoPlayerProps {
+  video: VideoSource;
+}
+
+// Only the thumbnail is loaded from YouTube or Vimeo until the reader clicks
+// play, and YouTube videos then come from its no-cookie domain.
+export const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
+  const [playing, setPlaying] = useState(false);
+  const [vimeoThumbnail, setVimeoThumbnail] = useState<string | null>(null);
+  // A thumbnail that failed to load, so the plain placeholder shows instead
+  const [brokenThumbnail, setBrokenThumbnail] = useState<string | null>(null);
+
+  const vimeoId = video.provider === "vimeo" ? video.id : null;
+
+  useEffect(() => {
+    setVimeoThumbnail(null);
+    if (!vimeoId) return;
+    let cancelled = false;
+    fetchVimeoThumbnail(vimeoId)
+      .then((thumbnail) => {
+        if (!cancelled) setVimeoThumbnail(thumbnail);
+      })
+      .catch((error) => console.error("Error fetching thumbnail:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [vimeoId]);
+
+  if (video.provider === "file") {
+    return (
+      <video
+        src={video.src}
+        controls
+        preload="none"
+        className="w-full aspect-video rounded-lg bg-black"
+      />
+    );
+  }
+
+  const embedUrl =
+    video.provider === "youtube"
+      ? `https://www.youtube-nocookie.com/embed/${video.id}?autoplay=1`
+      : `https://player.vimeo.com/video/${video.id}?autoplay=1&dnt=1`;
+
+  const thumbnail =
+    video.provider === "youtube"
+      ? youtubeThumbnailUrl(video.id)
+      : vimeoThumbnail;
+
+  if (playing) {
+    return (
+      <iframe
+        src={embedUrl}
+        title="Embedded video"
+        allow="autoplay; fullscreen; picture-in-picture"
+        allowFullScreen
+        className="w-full aspect-video rounded-lg"
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setPlaying(true)}
+      className="relative block w-full aspect-video rounded-lg overflow-hidden bg-black group"
+      title="Play video"
+    >
+      {thumbnail && thumbnail !== brokenThumbnail && (
+        <img
+          src={thumbnail}
+          alt=""
+          onError={() => setBrokenThumbnail(thumbnail)}
+          className="absolute inset-0 w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
+        />
+      )}
+      <span className="absolute inset-0 flex flex-col items-center justify-center text-white">
+        <span className="flex items-center justify-center w-16 h-16 rounded-full bg-brand-600 group-hover:bg-brand-700 transition-colors">
+          <svg className="w-8 h-8 ml-1" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M6.3 2.841A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+          </svg>
+        </span>
+        <span className="mt-3 text-sm text-white/80">
+          Click to load from{" "}
+          {video.provider === "youtube" ? "YouTube" : "Vimeo"}
+        </span>
+      </span>
+    </button>
+  );
+};
@@ -0,0 +1,83 @@
+import React from "react";
+import type { VoteValue } from "../api";
+
+interface VoteButtonsProps {
+  score: number;
+  value: VoteValue;
+  onVote: (value: VoteValue) => void;
+  disabled?: boolean;
+  size?: "sm" | "lg";
+}
+
+// Up/down arrows around the score. Clicking the active arrow again clears
+// the vote.
+export const VoteButtons: React.FC<VoteButtonsProps> = ({
+  score,
+  value,
+  onVote,
+  disabled = false,
+  size = "lg",
+}) => {
+  const large = size === "lg";
+  const iconClass = large ? "w-6 h-6" : "w-4 h-4";
+  const buttonClass = (active: boolean, activeClass: string) =>
+    `p-1 rounded-md transition-colors disabled:cursor-not-allowed ${
+      active ? activeClass : "text-gray-400 hover:bg-gray-100"
+    }`;
+
+  return (
+    <div
+      className={`flex items-center ${
+        large ? "flex-col bg-gray-50 rounded-lg p-1" : "gap-1"
+      }`}
+    >
+      <button
+        type="button"
+        onClick={() => onVote(value === 1 ? 0 : 1)}
+        disabled={disabled}
+        aria-pressed={value === 1}
+        title={value === 1 ? "Remove upvote" : "Upvote"}
+        className={buttonClass(value === 1, "text-brand-600 bg-brand-50")}
+      >
+        <svg className={iconClass} fill="currentColor" viewBox="0 0 20 20">
+          <path
+            fillRule="evenodd"
+            d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z"
+            clipRule="evenodd"
+          />
+        </svg>
+      </button>
+      <span
+        className={`font-bold ${large ? "text-lg" : "text-sm"} ${
+          value === 1
+            ? "text-brand-600"
+            : value === -1
+              ? "text-blue-600"
+              : "text-gray-700"
+        }`}
+      >
+        {score}
+      </span>
+      <button
+        type="button"
+        onClick={() => onVote(value === -1 ? 0 : -1)}
+        disabled={disabled}
+        aria-pressed={value === -1}
+        title={value === -1 ? "Remove downvote" : "Downvote"}
+        className={buttonClass(value === -1, "text-blue-600 bg-blue-500/10")}
+      >
+        <svg
+          className={`${iconClass} rotate-180`}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path
+            fillRule="evenodd"
+            d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z"
+            clipRule="evenodd"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+import type { Identity } from "../utils/identity";
+
+export interface IdentityContextValue {
+  identity: Identity;
+  exportCode: string;
+  importIdentity: (code: string) => void;
+}
+
+export const IdentityContext = createContext<IdentityContextValue | null>(null);
+
+export const useIdentity = () => {
+  const context = useContext(IdentityContext);
+  if (!context) {
+    throw new Error("useIdentity must be used within an IdentityProvider");
+  }
+  return context;
+};
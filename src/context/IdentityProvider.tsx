@@ -0,0 +1,35 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  exportIdentity,
+  loadIdentity,
+  parseIdentityCode,
+  saveIdentity,
+} from "../utils/identity";
+import { IdentityContext } from "./IdentityContext";
+
+export const IdentityProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [identity, setIdentity] = useState(loadIdentity);
+
+  const importIdentity = useCallback((code: string) => {
+    const imported = parseIdentityCode(code);
+    saveIdentity(imported);
+    setIdentity(imported);
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      identity,
+      exportCode: exportIdentity(identity),
+      importIdentity,
+    }),
+    [identity, importIdentity]
+  );
+
+  return (
+    <IdentityContext.Provider value={value}>
+      {children}
+    </IdentityContext.Provider>
+  );
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+
+export interface NotificationsContextValue {
+  // Unread notifications for the current identity, leaving out muted types
+  unreadCount: number;
+  // Reloads the count, e.g. after notifications were marked read
+  refreshUnreadCount: () => void;
+}
+
+export const NotificationsContext =
+  createContext<NotificationsContextValue | null>(null);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error(
+      "useNotifications must be used within a NotificationsProvider"
+    );
+  }
+  return context;
+};
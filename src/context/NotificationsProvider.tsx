@@ -0,0 +1,45 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { countUnreadNotifications } from "../api";
+import { useIdentity } from "./IdentityContext";
+import { NotificationsContext } from "./NotificationsContext";
+
+// How often the unread count is refreshed while the tab is open
+const POLL_INTERVAL_MS = 30000;
+
+export const NotificationsProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const { identity } = useIdentity();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      setUnreadCount(
+        await countUnreadNotifications(identity.id, identity.secret)
+      );
+    } catch (error) {
+      console.error("Error counting notifications:", error);
+    }
+  }, [identity]);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    const timer = setInterval(refreshUnreadCount, POLL_INTERVAL_MS);
+    window.addEventListener("focus", refreshUnreadCount);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("focus", refreshUnreadCount);
+    };
+  }, [refreshUnreadCount]);
+
+  const value = useMemo(
+    () => ({ unreadCount, refreshUnreadCount }),
+    [unreadCount, refreshUnreadCount]
+  );
+
+  return (
+    <NotificationsContext.Provider value={value}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import type { Preferences } from "../utils/preferences";
+
+export interface PreferencesContextValue {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => void;
+}
+
+export const PreferencesContext = createContext<PreferencesContextValue | null>(
+  null
+);
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error("usePreferences must be used within a PreferencesProvider");
+  }
+  return context;
+};
@@ -0,0 +1,44 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  applyAppearance,
+  loadPreferences,
+  savePreferences,
+  type Preferences,
+} from "../utils/preferences";
+import { PreferencesContext } from "./PreferencesContext";
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [preferences, setPreferences] = useState(loadPreferences);
+
+  const updatePreferences = useCallback((changes: Partial<Preferences>) => {
+    setPreferences((prev) => {
+      const next = { ...prev, ...changes };
+      savePreferences(next);
+      return next;
+    });
+  }, []);
+
+  // Follow the operating system while the theme is set to "system"
+  useEffect(() => {
+    const media = window.matchMedia(DARK_QUERY);
+    const apply = () => applyAppearance(preferences, media.matches);
+    apply();
+    media.addEventListener("change", apply);
+    return () => media.removeEventListener("change", apply);
+  }, [preferences]);
+
+  const value = useMemo(
+    () => ({ preferences, updatePreferences }),
+    [preferences, updatePreferences]
+  );
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
@@ -0,0 +1,28 @@
+import { createContext, useContext } from "react";
+
+export interface Toast {
+  message: string;
+  // A button shown next to the message, e.g. "Undo"
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
+  // How long the toast stays up, in milliseconds
+  duration?: number;
+}
+
+export interface ToastContextValue {
+  // Replaces whatever toast is currently showing
+  showToast: (toast: Toast) => void;
+  dismissToast: () => void;
+}
+
+export const ToastContext = createContext<ToastContextValue | null>(null);
+
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error("useToast must be used within a ToastProvider");
+  }
+  return context;
+};
@@ -0,0 +1,66 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ToastContext, type Toast } from "./ToastContext";
+
+const DEFAULT_DURATION_MS = 5000;
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  // Keyed so showing the same message twice restarts the timer
+  const [toast, setToast] = useState<(Toast & { key: number }) | null>(null);
+
+  const showToast = useCallback((next: Toast) => {
+    setToast({ ...next, key: Date.now() });
+  }, []);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(
+      () => setToast(null),
+      toast.duration ?? DEFAULT_DURATION_MS
+    );
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const value = useMemo(
+    () => ({ showToast, dismissToast }),
+    [showToast, dismissToast]
+  );
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      {toast && (
+        <div
+          key={toast.key}
+          role="status"
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg bg-gray-900 text-gray-50 text-sm"
+        >
+          <span>{toast.message}</span>
+          {toast.action && (
+            <button
+              type="button"
+              onClick={() => {
+                toast.action?.onClick();
+                setToast(null);
+              }}
+              className="font-semibold underline hover:no-underline"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={dismissToast}
+            className="text-gray-400 hover:text-gray-50"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </ToastContext.Provider>
+  );
+};
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+import { listBookmarks, setBookmark, type Bookmark, type Post } from "../api";
+import { useIdentity } from "../context/IdentityContext";
+
+// The current identity's bookmarks. Toggling updates the list straight away
+// and puts it back if the backend refuses.
+export const useBookmarks = () => {
+  const { identity } = useIdentity();
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listBookmarks(identity.secret)
+      .then((list) => {
+        if (!cancelled) setBookmarks(list);
+      })
+      .catch((error) => console.error("Error fetching bookmarks:", error))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [identity.secret]);
+
+  const isSaved = useCallback(
+    (postId: string) =>
+      bookmarks.some((bookmark) => bookmark.post_id === postId),
+    [bookmarks]
+  );
+
+  // Comments added since the reader last opened a bookmarked post
+  const newCommentCount = useCallback(
+    (post: Post) => {
+      const bookmark = bookmarks.find(
+        (candidate) => candidate.post_id === post.id
+      );
+      return bookmark
+        ? Math.max(0, post.comment_count - bookmark.seen_comment_count)
+        : 0;
+    },
+    [bookmarks]
+  );
+
+  const toggleBookmark = useCallback(
+    async (post: Post) => {
+      const previous = bookmarks;
+      const saved = !previous.some((bookmark) => bookmark.post_id === post.id);
+      setBookmarks(
+        saved
+          ? [
+              {
+                post_id: post.id,
+                created_at: new Date().toISOString(),
+                seen_comment_count: post.comment_count,
+              },
+              ...previous,
+            ]
+          : previous.filter((bookmark) => bookmark.post_id !== post.id)
+      );
+
+      try {
+        await setBookmark(identity.secret, post.id, saved);
+      } catch (error) {
+        console.error("Error saving bookmark:", error);
+        setBookmarks(previous);
+      }
+    },
+    [bookmarks, identity.secret]
+  );
+
+  return { bookmarks, loaded, isSaved, newCommentCount, toggleBookmark };
+};
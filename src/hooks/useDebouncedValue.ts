@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Returns value once it has stopped changing for delay milliseconds.
+export const useDebouncedValue = <T>(value: T, delay = 300): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+};
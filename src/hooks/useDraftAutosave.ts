@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  deleteDraft,
+  saveDraft,
+  toDraftValues,
+  type Draft,
+  type DraftValues,
+} from "../utils/drafts";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface DraftAutosaveOptions {
+  // Draft to save to, or null to pause autosaving
+  id: string | null;
+  postId: string | null;
+  values: DraftValues;
+  // Whether the form differs from what is saved on the server
+  dirty: boolean;
+}
+
+// Saves the form as a local draft shortly after each change, and removes the
+// draft again once the form is back to what is saved on the server.
+export const useDraftAutosave = ({
+  id,
+  postId,
+  values,
+  dirty,
+}: DraftAutosaveOptions) => {
+  const pending = useRef<Draft | null>(null);
+  // Compared as a string so a new values object with the same fields does
+  // not restart the timer
+  const serialized = id && dirty ? JSON.stringify(toDraftValues(values)) : null;
+
+  const flush = useCallback(() => {
+    if (pending.current) {
+      saveDraft({ ...pending.current, updated_at: new Date().toISOString() });
+      pending.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!id) return;
+    if (serialized === null) {
+      pending.current = null;
+      deleteDraft(id);
+      return;
+    }
+
+    pending.current = {
+      ...(JSON.parse(serialized) as DraftValues),
+      id,
+      post_id: postId,
+      updated_at: "",
+    };
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [id, postId, serialized, flush]);
+
+  // Save right away when the form goes away, so a change made just before
+  // leaving is not lost
+  useEffect(() => flush, [flush]);
+
+  // Drops the draft, e.g. once the post has been saved
+  const discard = useCallback(() => {
+    pending.current = null;
+    if (id) deleteDraft(id);
+  }, [id]);
+
+  return { discard };
+};
@@ -0,0 +1,22 @@
+import { useCallback, useRef } from "react";
+import { useBlocker } from "react-router-dom";
+
+// Holds in-app navigation away from a page while `when` is true, so the page
+// can ask before leaving. Call allowNavigation() before navigating away on
+// purpose, e.g. after saving.
+export const useLeaveConfirmation = (when: boolean) => {
+  const allowed = useRef(false);
+
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      when &&
+      !allowed.current &&
+      currentLocation.pathname !== nextLocation.pathname
+  );
+
+  const allowNavigation = useCallback(() => {
+    allowed.current = true;
+  }, []);
+
+  return { blocker, allowNavigation };
+};
@@ -0,0 +1,72 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import { renderPage } from "../test/renderPage";
+import { CreatePost } from "./CreatePost";
+import PostPage from "./PostPage";
+
+const routes = [
+  { path: "/create", element: <CreatePost /> },
+  { path: "/post/:id", element: <PostPage /> },
+];
+
+describe("CreatePost", () => {
+  it("publishes the post and opens it", async () => {
+    const router = renderPage(routes, "/create");
+
+    await userEvent.type(
+      screen.getByPlaceholderText("What's your Manchester United topic?"),
+      "Three points at Villa Park"
+    );
+    await userEvent.type(
+      screen.getByPlaceholderText(/Share your thoughts/),
+      "Hard fought win away from home."
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Create Post" }));
+
+    expect(
+      await screen.findByRole("heading", {
+        name: "Three points at Villa Park",
+      })
+    ).toBeInTheDocument();
+    expect(router.state.location.pathname).toMatch(/^\/post\//);
+  });
+
+  it("rejects video links that cannot be embedded", async () => {
+    const router = renderPage(routes, "/create");
+
+    await userEvent.type(
+      screen.getByPlaceholderText("What's your Manchester United topic?"),
+      "Goal of the month"
+    );
+    await userEvent.type(
+      screen.getByPlaceholderText("https://www.youtube.com/watch?v=..."),
+      "https://example.com/goal.avi"
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Create Post" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Only YouTube, Vimeo and direct .mp4 links can be embedded"
+    );
+    expect(router.state.location.pathname).toBe("/create");
+  });
+
+  it("rejects a reference to a post that does not exist", async () => {
+    const router = renderPage(routes, "/create");
+
+    await userEvent.type(
+      screen.getByPlaceholderText("What's your Manchester United topic?"),
+      "Following up"
+    );
+    await userEvent.type(
+      screen.getByPlaceholderText("Post ID or link, e.g. /post/123"),
+      "https://example.com/post/missing-post"
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Create Post" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "The referenced post could not be found"
+    );
+    expect(router.state.location.pathname).toBe("/create");
+  });
+});
@@ -1,64 +1,173 @@
-import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
-import supabase from "../utils/supabase";
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import {
+  createPost,
+  errorMessage,
+  getPost,
+  listFixtures,
+  type Fixture,
+} from "../api";
+import { DraftRestoreBanner } from "../components/DraftRestoreBanner";
+import { ImageUpload } from "../components/ImageUpload";
+import { LeaveDraftDialog } from "../components/LeaveDraftDialog";
+import { MarkdownEditor } from "../components/MarkdownEditor";
+import { useDraftAutosave } from "../hooks/useDraftAutosave";
+import { useLeaveConfirmation } from "../hooks/useLeaveConfirmation";
+import {
+  deleteDraft,
+  getDraft,
+  loadDrafts,
+  sameDraftValues,
+  toDraftValues,
+  type Draft,
+} from "../utils/drafts";
+import { describeFixture } from "../utils/fixtures";
+import { POST_FLAGS } from "../utils/flags";
+import { generateId } from "../utils/id";
+import { parseVideoUrl } from "../utils/video";
+import { useIdentity } from "../context/IdentityContext";
+
+// Fixtures older than this are left out of the match picker
+const RECENT_FIXTURE_DAYS = 7;
+
+// Accepts either a bare post ID or a pasted link such as
+// https://example.com/post/123 and returns just the ID.
+const parsePostReference = (value: string) => {
+  const trimmed = value.trim();
+  const match = trimmed.match(/\/post\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : trimmed;
+};
 
 export const CreatePost = () => {
   const navigate = useNavigate();
-  const [formData, setFormData] = useState({
+  const { identity } = useIdentity();
+  const [searchParams] = useSearchParams();
+  // What an untouched form holds; anything else is worth keeping as a draft
+  const [emptyForm] = useState(() => ({
     title: "",
     content: "",
     image_url: "",
-    secret_key: "",
+    video_url: "",
+    repost_ref: searchParams.get("repost") || "",
     flags: [] as string[],
+    fixture_id: searchParams.get("fixture") || "",
+  }));
+  // Opening a draft from the drafts page resumes it straight away
+  const [resumedDraft] = useState(() => {
+    const id = searchParams.get("draft");
+    const draft = id ? getDraft(id) : null;
+    return draft && !draft.post_id ? draft : null;
+  });
+  const [draftId, setDraftId] = useState(
+    () => resumedDraft?.id ?? generateId()
+  );
+  const [pendingDraft, setPendingDraft] = useState<Draft | null>(() =>
+    resumedDraft ? null : (loadDrafts().find((draft) => !draft.post_id) ?? null)
+  );
+  const [formData, setFormData] = useState({
+    ...(resumedDraft ? toDraftValues(resumedDraft) : emptyForm),
+    secret_key: "",
   });
   const [loading, setLoading] = useState(false);
+  const [uploadingImage, setUploadingImage] = useState(false);
+  const [error, setError] = useState("");
+  const [fixtures, setFixtures] = useState<Fixture[]>([]);
+
+  useEffect(() => {
+    listFixtures()
+      .then(setFixtures)
+      .catch((error) => console.error("Error fetching fixtures:", error));
+  }, []);
+
+  const recentSince = Date.now() - RECENT_FIXTURE_DAYS * 24 * 60 * 60 * 1000;
+  const fixtureOptions = fixtures.filter(
+    (fixture) =>
+      new Date(fixture.kickoff).getTime() >= recentSince ||
+      fixture.id === formData.fixture_id
+  );
+
+  const dirty = !sameDraftValues(formData, emptyForm);
+  const { discard } = useDraftAutosave({
+    id: draftId,
+    postId: null,
+    values: formData,
+    dirty,
+  });
+  const { blocker, allowNavigation } = useLeaveConfirmation(dirty);
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    setFormData((prev) => ({
+      ...toDraftValues(pendingDraft),
+      secret_key: prev.secret_key,
+    }));
+    setDraftId(pendingDraft.id);
+    setPendingDraft(null);
+  };
 
-  const availableFlags = [
-    { value: "Question", emoji: "❓", label: "Question" },
-    { value: "Opinion", emoji: "💭", label: "Opinion" },
-    { value: "News", emoji: "📰", label: "News" },
-    { value: "Discussion", emoji: "💬", label: "Discussion" },
-  ];
+  const handleDiscardDraft = () => {
+    if (!pendingDraft) return;
+    deleteDraft(pendingDraft.id);
+    // Offer the next one, if there are several
+    setPendingDraft(
+      loadDrafts().find((draft) => !draft.post_id && draft.id !== draftId) ??
+        null
+    );
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title.trim()) {
-      alert("Title is required");
+      setError("Title is required");
+      return;
+    }
+    if (formData.video_url.trim() && !parseVideoUrl(formData.video_url)) {
+      setError("Only YouTube, Vimeo and direct .mp4 links can be embedded");
       return;
     }
 
+    setError("");
     setLoading(true);
     try {
-      const userId = Math.random().toString(36).substring(2, 15);
-
-      const { data, error } = await supabase
-        .from("posts")
-        .insert([
-          {
-            title: formData.title,
-            content: formData.content,
-            image_url: formData.image_url,
-            secret_key: formData.secret_key,
-            user_id: userId,
-            repost_id: null,
-            flags: formData.flags,
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) throw error;
-      navigate(`/post/${data.id}`);
+      let repostId: string | null = null;
+      if (formData.repost_ref.trim()) {
+        repostId = parsePostReference(formData.repost_ref);
+        const referenced = await getPost(repostId);
+
+        if (!referenced) {
+          setError("The referenced post could not be found");
+          return;
+        }
+      }
+
+      const post = await createPost({
+        title: formData.title,
+        content: formData.content,
+        image_url: formData.image_url,
+        video_url: formData.video_url.trim(),
+        secret_key: formData.secret_key,
+        user_id: identity.id,
+        author_key: identity.secret,
+        repost_id: repostId,
+        flags: formData.flags,
+        fixture_id: formData.fixture_id || null,
+      });
+
+      discard();
+      allowNavigation();
+      navigate(`/post/${post.id}`);
     } catch (error) {
       console.error("Error creating post:", error);
-      alert("Error creating post. Please try again.");
+      setError(errorMessage(error, "Error creating post. Please try again."));
     } finally {
       setLoading(false);
     }
   };
 
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
   ) => {
     setFormData({
       ...formData,
@@ -77,16 +186,33 @@ export const CreatePost = () => {
 
   return (
     <div className="max-w-2xl mx-auto px-4 py-6">
-      <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="bg-surface rounded-lg shadow-sm border p-6">
         <div className="text-center mb-6">
-          <h1 className="text-3xl font-bold text-red-800 mb-2">
+          <h1 className="text-3xl font-bold text-brand-800 mb-2">
             Create New Post
           </h1>
           <p className="text-gray-600">
             Share your Manchester United thoughts with the community
           </p>
+          <p className="text-xs text-gray-500 mt-2">
+            Your post is saved as a draft while you write.{" "}
+            <Link
+              to="/drafts"
+              className="text-brand-600 hover:text-brand-700 hover:underline"
+            >
+              View drafts
+            </Link>
+          </p>
         </div>
 
+        {pendingDraft && (
+          <DraftRestoreBanner
+            draft={pendingDraft}
+            onRestore={handleRestoreDraft}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -98,7 +224,7 @@ export const CreatePost = () => {
               value={formData.title}
               onChange={handleChange}
               required
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
               placeholder="What's your Manchester United topic?"
             />
           </div>
@@ -108,13 +234,13 @@ export const CreatePost = () => {
               Post Categories
             </label>
             <div className="grid grid-cols-2 gap-3">
-              {availableFlags.map((flag) => (
+              {POST_FLAGS.map((flag) => (
                 <label
                   key={flag.value}
                   className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${
                     formData.flags.includes(flag.value)
-                      ? "border-red-500 bg-red-50 text-red-700"
-                      : "border-gray-300 hover:border-red-300"
+                      ? "border-brand-500 bg-brand-50 text-brand-700"
+                      : "border-gray-300 hover:border-brand-300"
                   }`}
                 >
                   <input
@@ -130,34 +256,102 @@ export const CreatePost = () => {
             </div>
           </div>
 
+          <div>
+            <label
+              htmlFor="fixture_id"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Match (Optional)
+            </label>
+            <select
+              id="fixture_id"
+              name="fixture_id"
+              value={formData.fixture_id}
+              onChange={handleChange}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-surface focus:outline-none focus:ring-2 focus:ring-brand-500"
+            >
+              <option value="">Not about a particular match</option>
+              {fixtureOptions.map((fixture) => (
+                <option key={fixture.id} value={fixture.id}>
+                  {describeFixture(fixture)}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Posts about a match show its score and kickoff time
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Content
             </label>
-            <textarea
+            <MarkdownEditor
               name="content"
               value={formData.content}
               onChange={handleChange}
               rows={8}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
               placeholder="Share your thoughts about Manchester United... tactics, players, matches, predictions, or anything Red Devils related!"
             />
+            <p className="text-xs text-gray-500 mt-1">
+              Add #hashtags anywhere in the title or content to tag your post
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Image (Optional)
+            </label>
+            <ImageUpload
+              value={formData.image_url}
+              onChange={(image_url) =>
+                setFormData((prev) => ({ ...prev, image_url }))
+              }
+              onUploadingChange={setUploadingImage}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Add an image to make your post more engaging
+            </p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Image URL (Optional)
+              Video URL (Optional)
             </label>
             <input
               type="url"
-              name="image_url"
-              value={formData.image_url}
+              name="video_url"
+              value={formData.video_url}
+              onChange={handleChange}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder="https://www.youtube.com/watch?v=..."
+            />
+            {formData.video_url.trim() && !parseVideoUrl(formData.video_url) ? (
+              <p className="text-xs text-red-600 mt-1">
+                Only YouTube, Vimeo and direct .mp4 links can be embedded
+              </p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                YouTube, Vimeo or a direct .mp4 link
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Repost / Reference Post (Optional)
+            </label>
+            <input
+              type="text"
+              name="repost_ref"
+              value={formData.repost_ref}
               onChange={handleChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              placeholder="https://example.com/football-image.jpg"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              placeholder="Post ID or link, e.g. /post/123"
             />
             <p className="text-xs text-gray-500 mt-1">
-              Add an image to make your post more engaging
+              The referenced post will be shown on your post, creating a thread
             </p>
           </div>
 
@@ -170,7 +364,7 @@ export const CreatePost = () => {
               name="secret_key"
               value={formData.secret_key}
               onChange={handleChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
               placeholder="Create a secret key to edit/delete your post later"
             />
             <p className="text-xs text-gray-500 mt-1">
@@ -178,11 +372,17 @@ export const CreatePost = () => {
             </p>
           </div>
 
+          {error && (
+            <p role="alert" className="text-sm text-red-600">
+              {error}
+            </p>
+          )}
+
           <div className="flex gap-4 pt-4">
             <button
               type="submit"
-              disabled={loading}
-              className="flex-1 bg-green-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              disabled={loading || uploadingImage}
+              className="flex-1 bg-brand-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {loading ? (
                 <div className="flex items-center justify-center">
@@ -205,11 +405,11 @@ export const CreatePost = () => {
       </div>
 
       {/* Football Tips Sidebar */}
-      <div className="mt-6 bg-green-50 border border-green-200 rounded-lg p-4">
-        <h3 className="font-semibold text-green-800 mb-2">
+      <div className="mt-6 bg-brand-50 border border-brand-200 rounded-lg p-4">
+        <h3 className="font-semibold text-brand-800 mb-2">
           💡 Football Post Tips
         </h3>
-        <ul className="text-sm text-green-700 space-y-1">
+        <ul className="text-sm text-brand-700 space-y-1">
           <li>• Use specific team names and player names</li>
           <li>• Add match dates and scores for context</li>
           <li>• Share tactical analysis or predictions</li>
@@ -217,6 +417,12 @@ export const CreatePost = () => {
           <li>• Be respectful of all teams and fans</li>
         </ul>
       </div>
+
+      <LeaveDraftDialog
+        blocker={blocker}
+        title="Leave without posting?"
+        onDiscard={discard}
+      />
     </div>
   );
 };
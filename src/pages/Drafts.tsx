@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { deleteDraft, loadDrafts, type Draft } from "../utils/drafts";
+import { formatTimeAgo } from "../utils/format";
+
+const resumeLink = (draft: Draft) =>
+  draft.post_id
+    ? `/edit/${draft.post_id}?draft=1`
+    : `/create?draft=${encodeURIComponent(draft.id)}`;
+
+const Drafts: React.FC = () => {
+  const [drafts, setDrafts] = useState(loadDrafts);
+
+  const handleDiscard = (draft: Draft) => {
+    if (!window.confirm("Discard this draft? This cannot be undone.")) return;
+    deleteDraft(draft.id);
+    setDrafts(loadDrafts());
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-6">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold text-brand-800 mb-2">Drafts</h1>
+        <p className="text-gray-600">
+          Posts you started writing in this browser, saved as you typed
+        </p>
+      </div>
+
+      {drafts.length === 0 ? (
+        <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+          <div className="text-6xl mb-4">📝</div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            No drafts
+          </h2>
+          <p className="text-gray-600 mb-4">
+            Unfinished posts and edits will show up here.
+          </p>
+          <Link
+            to="/create"
+            className="bg-brand-600 text-white px-6 py-3 rounded-lg hover:bg-brand-700"
+          >
+            Create a Post
+          </Link>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {drafts.map((draft) => (
+            <li
+              key={draft.id}
+              className="bg-surface rounded-lg shadow-sm border p-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-brand-600 mb-1">
+                    {draft.post_id ? "Edit to a post" : "New post"} · Saved{" "}
+                    {formatTimeAgo(draft.updated_at).toLowerCase()}
+                  </p>
+                  <h2 className="text-lg font-semibold text-gray-900 truncate">
+                    {draft.title.trim() || "Untitled draft"}
+                  </h2>
+                  {draft.content.trim() && (
+                    <p className="text-sm text-gray-600 line-clamp-2">
+                      {draft.content}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Link
+                    to={resumeLink(draft)}
+                    className="bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-brand-700 transition-colors"
+                  >
+                    Resume
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => handleDiscard(draft)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Drafts;
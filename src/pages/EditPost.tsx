@@ -1,95 +1,171 @@
-import React, { useState, useEffect } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
-import supabase from "../utils/supabase";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  useParams,
+  useNavigate,
+  useSearchParams,
+  Link,
+} from "react-router-dom";
+import {
+  errorMessage,
+  getPost,
+  isApiError,
+  updatePost,
+  type Post,
+  type PostChanges,
+} from "../api";
+import { DraftRestoreBanner } from "../components/DraftRestoreBanner";
+import { ImageUpload } from "../components/ImageUpload";
+import { LeaveDraftDialog } from "../components/LeaveDraftDialog";
+import { MarkdownEditor } from "../components/MarkdownEditor";
+import { useDraftAutosave } from "../hooks/useDraftAutosave";
+import { useLeaveConfirmation } from "../hooks/useLeaveConfirmation";
+import {
+  deleteDraft,
+  editDraftId,
+  getDraft,
+  sameDraftValues,
+  type Draft,
+} from "../utils/drafts";
+import { POST_FLAGS } from "../utils/flags";
+import { parseVideoUrl } from "../utils/video";
 
-interface Post {
-  id: string;
-  title: string;
-  content: string;
-  image_url: string;
-  secret_key: string;
-  flags: string[];
-}
+const draftChanges = (draft: Draft): PostChanges => ({
+  title: draft.title,
+  content: draft.content,
+  image_url: draft.image_url,
+  video_url: draft.video_url,
+  flags: draft.flags,
+});
+
+// Edit drafts leave the fields only new posts have empty
+const NEW_POST_FIELDS = { repost_ref: "", fixture_id: "" };
 
 const EditPost: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Opening the draft from the drafts page resumes it without asking
+  const resumeDraft = searchParams.has("draft");
   const [post, setPost] = useState<Post | null>(null);
-  const [formData, setFormData] = useState({
+  // The post as it is saved on the server
+  const [savedData, setSavedData] = useState<PostChanges>({
     title: "",
     content: "",
     image_url: "",
-    flags: [] as string[],
+    video_url: "",
+    flags: [],
   });
+  const [formData, setFormData] = useState(savedData);
+  const [pendingDraft, setPendingDraft] = useState<Draft | null>(null);
   const [secretKey, setSecretKey] = useState("");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [uploadingImage, setUploadingImage] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchPost = useCallback(
+    async (postId: string) => {
+      try {
+        const data = await getPost(postId);
+        setPost(data);
+        if (data) {
+          const saved = {
+            title: data.title,
+            content: data.content || "",
+            image_url: data.image_url || "",
+            video_url: data.video_url || "",
+            flags: data.flags || [],
+          };
+          setSavedData(saved);
 
-  const availableFlags = [
-    { value: "Question", emoji: "❓", label: "Question" },
-    { value: "Opinion", emoji: "💭", label: "Opinion" },
-    { value: "News", emoji: "📰", label: "News" },
-    { value: "Discussion", emoji: "💬", label: "Discussion" },
-  ];
+          const draft = getDraft(editDraftId(postId));
+          if (
+            draft &&
+            sameDraftValues(draft, { ...saved, ...NEW_POST_FIELDS })
+          ) {
+            deleteDraft(draft.id);
+            setFormData(saved);
+          } else if (draft && resumeDraft) {
+            setFormData(draftChanges(draft));
+          } else {
+            setFormData(saved);
+            setPendingDraft(draft);
+          }
+        }
+      } catch (error) {
+        console.error("Error fetching post:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [resumeDraft]
+  );
 
   useEffect(() => {
     if (id) {
-      fetchPost();
+      fetchPost(id);
     }
-  }, [id]);
+  }, [id, fetchPost]);
 
-  const fetchPost = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("posts")
-        .select("*")
-        .eq("id", id)
-        .single();
+  const draftValues = { ...formData, ...NEW_POST_FIELDS };
+  const dirty =
+    !!post &&
+    !sameDraftValues(draftValues, { ...savedData, ...NEW_POST_FIELDS });
+  // Held back while the restore prompt is up, so the old draft is not
+  // overwritten before the user decides what to do with it
+  const { discard } = useDraftAutosave({
+    id: post && !pendingDraft ? editDraftId(post.id) : null,
+    postId: post?.id ?? null,
+    values: draftValues,
+    dirty,
+  });
+  const { blocker, allowNavigation } = useLeaveConfirmation(dirty);
 
-      if (error) throw error;
-      setPost(data);
-      setFormData({
-        title: data.title,
-        content: data.content || "",
-        image_url: data.image_url || "",
-        flags: data.flags || [],
-      });
-    } catch (error) {
-      console.error("Error fetching post:", error);
-    } finally {
-      setLoading(false);
-    }
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    setFormData(draftChanges(pendingDraft));
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    if (!pendingDraft) return;
+    deleteDraft(pendingDraft.id);
+    setPendingDraft(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!post || secretKey !== post.secret_key) {
-      alert("Invalid secret key");
+    if (!post || !secretKey) {
+      setError("Invalid secret key");
       return;
     }
 
     if (!formData.title.trim()) {
-      alert("Title is required");
+      setError("Title is required");
+      return;
+    }
+    if (formData.video_url.trim() && !parseVideoUrl(formData.video_url)) {
+      setError("Only YouTube, Vimeo and direct .mp4 links can be embedded");
       return;
     }
 
+    setError("");
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from("posts")
-        .update({
-          title: formData.title,
-          content: formData.content,
-          image_url: formData.image_url,
-          flags: formData.flags,
-        })
-        .eq("id", post.id);
-
-      if (error) throw error;
+      await updatePost(post.id, secretKey, {
+        ...formData,
+        video_url: formData.video_url.trim(),
+      });
+      discard();
+      allowNavigation();
       navigate(`/post/${post.id}`);
     } catch (error) {
+      if (isApiError(error, "invalid_secret_key")) {
+        setError("Invalid secret key");
+        return;
+      }
       console.error("Error updating post:", error);
-      alert("Error updating post. Please try again.");
+      setError(errorMessage(error, "Error updating post. Please try again."));
     } finally {
       setSaving(false);
     }
@@ -116,7 +192,7 @@ const EditPost: React.FC = () => {
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
-        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-red-600"></div>
+        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-brand-600"></div>
         <span className="ml-4 text-lg text-gray-600">Loading post...</span>
       </div>
     );
@@ -135,7 +211,7 @@ const EditPost: React.FC = () => {
           </p>
           <Link
             to="/"
-            className="bg-red-600 text-white px-6 py-3 rounded-lg hover:bg-red-700"
+            className="bg-brand-600 text-white px-6 py-3 rounded-lg hover:bg-brand-700"
           >
             Back to Football Hub
           </Link>
@@ -150,7 +226,7 @@ const EditPost: React.FC = () => {
       <div className="mb-6">
         <Link
           to={`/post/${post.id}`}
-          className="flex items-center text-red-600 hover:text-red-700 transition-colors"
+          className="flex items-center text-brand-600 hover:text-brand-700 transition-colors"
         >
           <svg
             className="w-5 h-5 mr-2"
@@ -169,12 +245,20 @@ const EditPost: React.FC = () => {
         </Link>
       </div>
 
-      <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="bg-surface rounded-lg shadow-sm border p-6">
         <div className="text-center mb-6">
-          <h1 className="text-3xl font-bold text-red-800 mb-2">Edit Post</h1>
+          <h1 className="text-3xl font-bold text-brand-800 mb-2">Edit Post</h1>
           <p className="text-gray-600">Update your football post</p>
         </div>
 
+        {pendingDraft && (
+          <DraftRestoreBanner
+            draft={pendingDraft}
+            onRestore={handleRestoreDraft}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
             <h3 className="font-semibold text-yellow-800 mb-2">
@@ -188,7 +272,7 @@ const EditPost: React.FC = () => {
               value={secretKey}
               onChange={(e) => setSecretKey(e.target.value)}
               required
-              className="w-full px-4 py-3 border border-yellow-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              className="w-full px-4 py-3 border border-yellow-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
               placeholder="Secret key"
             />
           </div>
@@ -203,7 +287,7 @@ const EditPost: React.FC = () => {
               value={formData.title}
               onChange={handleChange}
               required
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
               placeholder="What's your Manchester United topic?"
             />
           </div>
@@ -213,13 +297,13 @@ const EditPost: React.FC = () => {
               Post Categories
             </label>
             <div className="grid grid-cols-2 gap-3">
-              {availableFlags.map((flag) => (
+              {POST_FLAGS.map((flag) => (
                 <label
                   key={flag.value}
                   className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${
                     formData.flags.includes(flag.value)
-                      ? "border-red-500 bg-red-50 text-red-700"
-                      : "border-gray-300 hover:border-red-300"
+                      ? "border-brand-500 bg-brand-50 text-brand-700"
+                      : "border-gray-300 hover:border-brand-300"
                   }`}
                 >
                   <input
@@ -238,35 +322,66 @@ const EditPost: React.FC = () => {
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Content
             </label>
-            <textarea
+            <MarkdownEditor
               name="content"
               value={formData.content}
               onChange={handleChange}
               rows={8}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
               placeholder="Share your thoughts about Manchester United..."
             />
+            <p className="text-xs text-gray-500 mt-1">
+              Add #hashtags anywhere in the title or content to tag your post
+            </p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Image URL (Optional)
+              Image (Optional)
+            </label>
+            <ImageUpload
+              value={formData.image_url}
+              onChange={(image_url) =>
+                setFormData((prev) => ({ ...prev, image_url }))
+              }
+              onUploadingChange={setUploadingImage}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Video URL (Optional)
             </label>
             <input
               type="url"
-              name="image_url"
-              value={formData.image_url}
+              name="video_url"
+              value={formData.video_url}
               onChange={handleChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
-              placeholder="https://example.com/man-united-image.jpg"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder="https://www.youtube.com/watch?v=..."
             />
+            {formData.video_url.trim() && !parseVideoUrl(formData.video_url) ? (
+              <p className="text-xs text-red-600 mt-1">
+                Only YouTube, Vimeo and direct .mp4 links can be embedded
+              </p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                YouTube, Vimeo or a direct .mp4 link
+              </p>
+            )}
           </div>
 
+          {error && (
+            <p role="alert" className="text-sm text-red-600">
+              {error}
+            </p>
+          )}
+
           <div className="flex gap-4 pt-4">
             <button
               type="submit"
-              disabled={saving}
-              className="flex-1 bg-red-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              disabled={saving || uploadingImage}
+              className="flex-1 bg-brand-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {saving ? (
                 <div className="flex items-center justify-center">
@@ -287,6 +402,12 @@ const EditPost: React.FC = () => {
           </div>
         </form>
       </div>
+
+      <LeaveDraftDialog
+        blocker={blocker}
+        title="Leave without saving?"
+        onDiscard={discard}
+      />
     </div>
   );
 };
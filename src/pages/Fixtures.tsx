@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { listFixtures, type Fixture, type MatchThreadKind } from "../api";
+import {
+  MATCH_THREAD_LABELS,
+  fixtureTeams,
+  formatKickoff,
+  formatScore,
+  matchPhase,
+} from "../utils/fixtures";
+
+const FixtureRow: React.FC<{ fixture: Fixture }> = ({ fixture }) => {
+  const [home, away] = fixtureTeams(fixture);
+  const score = formatScore(fixture);
+  const phase = matchPhase(fixture.kickoff);
+  const threads = Object.entries(fixture.threads) as [
+    MatchThreadKind,
+    string,
+  ][];
+
+  return (
+    <li className="bg-surface rounded-lg shadow-sm border p-4">
+      <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+        <span>
+          {fixture.competition} · {fixture.venue}
+        </span>
+        {phase === "live" ? (
+          <span className="font-semibold text-brand-600">● Live</span>
+        ) : (
+          <span>{formatKickoff(fixture.kickoff)}</span>
+        )}
+      </div>
+      <div className="flex items-center justify-center gap-4 font-semibold text-gray-900">
+        <span className="flex-1 text-right">{home}</span>
+        <span className="px-3 py-1 rounded bg-gray-900 text-gray-50 tabular-nums">
+          {score ?? "vs"}
+        </span>
+        <span className="flex-1">{away}</span>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 mt-3 text-sm">
+        {threads.map(([kind, id]) => (
+          <Link
+            key={kind}
+            to={`/post/${id}`}
+            className="text-brand-600 hover:underline"
+          >
+            {MATCH_THREAD_LABELS[kind]}
+          </Link>
+        ))}
+        <Link
+          to={`/?fixture=${fixture.id}`}
+          className="text-brand-600 hover:underline"
+        >
+          Posts
+        </Link>
+        <Link
+          to={`/create?fixture=${fixture.id}`}
+          className="text-brand-600 hover:underline"
+        >
+          Write about this match
+        </Link>
+      </div>
+    </li>
+  );
+};
+
+const Fixtures: React.FC = () => {
+  const [fixtures, setFixtures] = useState<Fixture[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    listFixtures()
+      .then(setFixtures)
+      .catch((error) => {
+        console.error("Error fetching fixtures:", error);
+        setError("Could not load the fixtures. Please try again.");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Live matches stay at the top of the upcoming list until full time
+  const upcoming = fixtures.filter(
+    (fixture) => matchPhase(fixture.kickoff) !== "finished"
+  );
+  const results = fixtures
+    .filter((fixture) => matchPhase(fixture.kickoff) === "finished")
+    .reverse();
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-6">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold text-brand-800 mb-2">Fixtures</h1>
+        <p className="text-gray-600">
+          Match threads open a day before kickoff, go live at kickoff and turn
+          into post-match threads at full time
+        </p>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-brand-600"></div>
+        </div>
+      ) : fixtures.length === 0 ? (
+        !error && (
+          <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+            <div className="text-6xl mb-4">📅</div>
+            <p className="text-gray-600">No fixtures have been added yet.</p>
+          </div>
+        )
+      ) : (
+        <>
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">Upcoming</h2>
+          {upcoming.length === 0 ? (
+            <p className="text-gray-500 mb-8">No upcoming matches.</p>
+          ) : (
+            <ul className="space-y-3 mb-8">
+              {upcoming.map((fixture) => (
+                <FixtureRow key={fixture.id} fixture={fixture} />
+              ))}
+            </ul>
+          )}
+
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">Results</h2>
+          {results.length === 0 ? (
+            <p className="text-gray-500">No matches played yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {results.map((fixture) => (
+                <FixtureRow key={fixture.id} fixture={fixture} />
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Fixtures;
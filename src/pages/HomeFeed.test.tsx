@@ -0,0 +1,70 @@
+import { screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import { renderPage } from "../test/renderPage";
+import HomeFeed from "./HomeFeed";
+
+const routes = [{ path: "/", element: <HomeFeed /> }];
+
+describe("HomeFeed", () => {
+  it("lists the newest posts first, after the match threads it opened", async () => {
+    renderPage(routes, "/");
+
+    const titles = (await screen.findAllByRole("heading", { level: 2 })).map(
+      (heading) => heading.textContent
+    );
+    expect(titles[0]).toMatch(/^(Pre-match|Match|Post-match) thread: /);
+    // The Chelsea match finished before anyone looked, so the threads for
+    // the windows that were missed are opened too
+    expect(titles).toContain(
+      "Pre-match thread: Manchester United vs Chelsea | Premier League"
+    );
+    expect(titles).toContain(
+      "Post-match thread: Manchester United 2-1 Chelsea | Premier League"
+    );
+    expect(
+      titles.indexOf("Match preview: United vs Liverpool at Old Trafford")
+    ).toBeLessThan(
+      titles.indexOf("Is the academy still the heart of the club?")
+    );
+  });
+
+  it("filters by the tag in the URL until it is cleared", async () => {
+    renderPage(routes, "/?tag=transfers");
+
+    expect(
+      await screen.findByText("Who should we target in the January window?")
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByText("Is the academy still the heart of the club?")
+    ).not.toBeInTheDocument();
+
+    const filter = screen.getByText("Showing posts tagged").parentElement!;
+    await userEvent.click(within(filter).getByTitle("Clear tag filter"));
+
+    expect(
+      await screen.findByText("Is the academy still the heart of the club?")
+    ).toBeInTheDocument();
+  });
+
+  it("keeps the match filter when the tag is cleared", async () => {
+    const router = renderPage(routes, "/?tag=munliv&fixture=seed-fixture-3");
+
+    const filter = (await screen.findByText("Showing posts tagged"))
+      .parentElement!;
+    await userEvent.click(within(filter).getByTitle("Clear tag filter"));
+
+    expect(router.state.location.search).toBe("?fixture=seed-fixture-3");
+    expect(screen.queryByText("Showing posts tagged")).not.toBeInTheDocument();
+    expect(screen.getByText("Showing posts about")).toBeInTheDocument();
+  });
+
+  it("offers to create the first post when nothing matches", async () => {
+    renderPage(routes, "/?tag=nosuchtag");
+
+    expect(await screen.findByText(/No posts found/)).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "Create First Post" })
+    ).toHaveAttribute("href", "/create");
+  });
+});
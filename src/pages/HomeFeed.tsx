@@ -1,107 +1,169 @@
-import React, { useState, useEffect, useCallback } from "react";
-import { Link } from "react-router-dom";
-import supabase from "../utils/supabase";
-
-interface Post {
-  id: string;
-  title: string;
-  content: string;
-  image_url: string;
-  upvotes: number;
-  created_at: string;
-  user_id: string;
-  flags: string[];
-}
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  getFixture,
+  listPosts,
+  subscribeToNewPosts,
+  type FlagMatch,
+  type Fixture,
+  type Post,
+  type PostCursor,
+  type PostSort,
+} from "../api";
+import { FeedControls } from "../components/FeedControls";
+import { FeedPost } from "../components/FeedPost";
+import { TagCloud } from "../components/TagCloud";
+import { usePreferences } from "../context/PreferencesContext";
+import { useBookmarks } from "../hooks/useBookmarks";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { describeFixture } from "../utils/fixtures";
+import { matchesFlags } from "../utils/flags";
+import { normalizeTag } from "../utils/hashtags";
+import { FEED_CLASSES } from "../utils/preferences";
 
 const HomeFeed: React.FC = () => {
+  const { feedLayout } = usePreferences().preferences;
+  const { isSaved, newCommentCount, toggleBookmark } = useBookmarks();
   const [posts, setPosts] = useState<Post[]>([]);
-  const [commentCounts, setCommentCounts] = useState<{ [key: string]: number }>(
-    {}
-  );
+  const [nextCursor, setNextCursor] = useState<PostCursor | null>(null);
   const [loading, setLoading] = useState(true);
-  const [sortBy, setSortBy] = useState<"created_at" | "upvotes">("created_at");
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [sortBy, setSortBy] = useState<PostSort>("created_at");
   const [searchTerm, setSearchTerm] = useState("");
-  const [filterFlag, setFilterFlag] = useState("");
+  const [filterFlags, setFilterFlags] = useState<string[]>([]);
+  const [flagMatch, setFlagMatch] = useState<FlagMatch>("any");
+  // The tag lives in the URL so hashtag links elsewhere can filter the feed
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tag = normalizeTag(searchParams.get("tag") || "");
+  // Set by the "All posts about this match" links
+  const fixtureId = searchParams.get("fixture") || "";
+  const [fixture, setFixture] = useState<Fixture | null>(null);
+  // Posts created by others since the feed was loaded
+  const [incoming, setIncoming] = useState<Post[]>([]);
+  const search = useDebouncedValue(searchTerm);
+  // Incremented whenever the query changes so stale pages are discarded
+  const queryVersion = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const fetchCommentCounts = useCallback(async (postIds: string[]) => {
+  const fetchPosts = useCallback(async () => {
+    const version = ++queryVersion.current;
+    setLoading(true);
+    setIncoming([]);
     try {
-      const { data, error } = await supabase
-        .from("comments")
-        .select("post_id")
-        .in("post_id", postIds);
-
-      if (error) throw error;
-
-      const counts: { [key: string]: number } = {};
-      postIds.forEach((id) => (counts[id] = 0));
-
-      data?.forEach((comment) => {
-        counts[comment.post_id] = (counts[comment.post_id] || 0) + 1;
+      const page = await listPosts({
+        sortBy,
+        search,
+        flags: filterFlags,
+        flagMatch,
+        tag,
+        fixtureId,
       });
-
-      setCommentCounts(counts);
+      if (version !== queryVersion.current) return;
+      setPosts(page.posts);
+      setNextCursor(page.nextCursor);
     } catch (error) {
-      console.error("Error fetching comment counts:", error);
+      console.error("Error fetching posts:", error);
+    } finally {
+      if (version === queryVersion.current) {
+        setLoading(false);
+        setHasLoaded(true);
+      }
     }
-  }, []);
-
-  const fetchPosts = useCallback(async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from("posts")
-        .select("*")
-        .order(sortBy, { ascending: false });
+  }, [sortBy, search, filterFlags, flagMatch, tag, fixtureId]);
 
-      if (error) throw error;
-      setPosts(data || []);
+  const fetchMorePosts = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) return;
 
-      // Fetch comment counts for all posts
-      if (data) {
-        await fetchCommentCounts(data.map((post) => post.id));
-      }
+    const version = queryVersion.current;
+    setLoadingMore(true);
+    try {
+      const page = await listPosts({
+        sortBy,
+        search,
+        flags: filterFlags,
+        flagMatch,
+        tag,
+        fixtureId,
+        cursor: nextCursor,
+      });
+      if (version !== queryVersion.current) return;
+      setPosts((prev) => [...prev, ...page.posts]);
+      setNextCursor(page.nextCursor);
     } catch (error) {
-      console.error("Error fetching posts:", error);
+      console.error("Error fetching more posts:", error);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
-  }, [sortBy, fetchCommentCounts]);
+  }, [
+    sortBy,
+    search,
+    filterFlags,
+    flagMatch,
+    tag,
+    fixtureId,
+    nextCursor,
+    loading,
+    loadingMore,
+  ]);
 
   useEffect(() => {
     fetchPosts();
   }, [fetchPosts]);
 
-  const filteredPosts = posts.filter((post) => {
-    const matchesSearch = post.title
-      .toLowerCase()
-      .includes(searchTerm.toLowerCase());
-    const matchesFlag =
-      !filterFlag || (post.flags && post.flags.includes(filterFlag));
-    return matchesSearch && matchesFlag;
-  });
+  useEffect(() => {
+    if (!fixtureId) {
+      setFixture(null);
+      return;
+    }
+    getFixture(fixtureId)
+      .then(setFixture)
+      .catch((error) => console.error("Error fetching fixture:", error));
+  }, [fixtureId]);
+
+  useEffect(
+    () =>
+      subscribeToNewPosts((post) =>
+        setIncoming((prev) =>
+          prev.some((existing) => existing.id === post.id)
+            ? prev
+            : [...prev, post]
+        )
+      ),
+    []
+  );
 
-  const formatTimeAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffInHours = Math.floor(
-      (now.getTime() - date.getTime()) / (1000 * 60 * 60)
-    );
+  const loadedIds = new Set(posts.map((post) => post.id));
+  const newPostCount = incoming.filter(
+    (post) =>
+      !loadedIds.has(post.id) &&
+      matchesFlags(post.flags, filterFlags, flagMatch) &&
+      (!tag || post.tags.includes(tag)) &&
+      (!fixtureId || post.fixture_id === fixtureId) &&
+      post.title.toLowerCase().includes(search.trim().toLowerCase())
+  ).length;
 
-    if (diffInHours < 1) return "Just now";
-    if (diffInHours < 24) return `${diffInHours}h ago`;
-    return `${Math.floor(diffInHours / 24)}d ago`;
+  const showNewPosts = () => {
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    fetchPosts();
   };
 
-  const truncateText = (text: string, maxWords: number) => {
-    const words = text.split(" ");
-    if (words.length <= maxWords) return text;
-    return words.slice(0, maxWords).join(" ") + "...";
-  };
+  // Load the next page as soon as the end of the feed scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchMorePosts();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, fetchMorePosts]);
 
-  if (loading) {
+  if (!hasLoaded) {
     return (
       <div className="flex justify-center items-center min-h-screen">
-        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-red-600"></div>
+        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-brand-600"></div>
         <span className="ml-4 text-lg text-gray-600">
           Loading Manchester United posts...
         </span>
@@ -113,7 +175,7 @@ const HomeFeed: React.FC = () => {
     <div className="max-w-6xl mx-auto px-4 py-6">
       {/* Header */}
       <div className="text-center mb-8">
-        <h1 className="text-4xl font-bold text-red-600 mb-2">
+        <h1 className="text-4xl font-bold text-brand-600 mb-2">
           <img
             src="https://upload.wikimedia.org/wikipedia/en/thumb/7/7a/Manchester_United_FC_crest.svg/1200px-Manchester_United_FC_crest.svg.png"
             alt="logo"
@@ -121,49 +183,104 @@ const HomeFeed: React.FC = () => {
           />
           Manchester United Hub
         </h1>
-        <p className="text-red-600 font-bold">
+        <p className="text-brand-600 font-bold">
           Glory Glory Man United - Share your passion for the Red Devils
         </p>
       </div>
 
-      {/* Controls */}
-      <div className="bg-red-600 rounded-lg shadow-sm border border-red-500 p-6 mb-6">
-        <div className="flex flex-col md:flex-row gap-4 mb-4">
-          <input
-            type="text"
-            placeholder="Search posts by title..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
-          />
-          <select
-            value={sortBy}
-            onChange={(e) =>
-              setSortBy(e.target.value as "created_at" | "upvotes")
-            }
-            className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
-          >
-            <option value="created_at">Latest Posts</option>
-            <option value="upvotes">Most Popular</option>
-          </select>
-          <select
-            value={filterFlag}
-            onChange={(e) => setFilterFlag(e.target.value)}
-            className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
-          >
-            <option value="">All Categories</option>
-            <option value="Question">Questions</option>
-            <option value="Opinion">Opinions</option>
-            <option value="News">News</option>
-            <option value="Discussion">Discussions</option>
-          </select>
+      <FeedControls
+        searchTerm={searchTerm}
+        onSearchTermChange={setSearchTerm}
+        sortBy={sortBy}
+        onSortByChange={setSortBy}
+        filterFlags={filterFlags}
+        onFilterFlagsChange={setFilterFlags}
+        flagMatch={flagMatch}
+        onFlagMatchChange={setFlagMatch}
+      >
+        <Link
+          to={
+            searchTerm.trim()
+              ? `/search?q=${encodeURIComponent(searchTerm.trim())}`
+              : "/search"
+          }
+          className="text-sm text-white hover:underline"
+        >
+          Search post content and comments too →
+        </Link>
+      </FeedControls>
+
+      {tag && (
+        <div className="flex items-center gap-2 mb-4">
+          <span className="text-gray-700">Showing posts tagged</span>
+          <span className="inline-flex items-center gap-1 px-3 py-1 bg-brand-100 text-brand-800 rounded-full font-medium">
+            #{tag}
+            <button
+              type="button"
+              onClick={() =>
+                setSearchParams((prev) => {
+                  const next = new URLSearchParams(prev);
+                  next.delete("tag");
+                  return next;
+                })
+              }
+              className="ml-1 hover:text-brand-600"
+              title="Clear tag filter"
+            >
+              ×
+            </button>
+          </span>
         </div>
-      </div>
+      )}
+
+      {fixtureId && (
+        <div className="flex items-center gap-2 mb-4">
+          <span className="text-gray-700">Showing posts about</span>
+          <span className="inline-flex items-center gap-1 px-3 py-1 bg-brand-100 text-brand-800 rounded-full font-medium">
+            {fixture ? describeFixture(fixture) : "a match"}
+            <button
+              type="button"
+              onClick={() =>
+                setSearchParams((prev) => {
+                  const next = new URLSearchParams(prev);
+                  next.delete("fixture");
+                  return next;
+                })
+              }
+              className="ml-1 hover:text-brand-600"
+              title="Clear match filter"
+            >
+              ×
+            </button>
+          </span>
+        </div>
+      )}
+
+      <TagCloud selected={tag} />
+
+      {/* New Posts Banner */}
+      {!loading && newPostCount > 0 && (
+        <button
+          onClick={showNewPosts}
+          className="sticky top-4 z-10 block mx-auto mb-6 bg-brand-600 text-white px-5 py-2 rounded-full shadow-lg hover:bg-brand-700 transition-colors"
+        >
+          {newPostCount} new {newPostCount === 1 ? "post" : "posts"} — click to
+          load
+        </button>
+      )}
 
       {/* Posts Feed */}
-      <div className="space-y-6">
-        {filteredPosts.length === 0 ? (
-          <div className="text-center py-12 bg-white rounded-lg shadow-sm border">
+      <div
+        className={
+          loading || posts.length === 0 ? "space-y-6" : FEED_CLASSES[feedLayout]
+        }
+      >
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-brand-600"></div>
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
             <div className="text-6xl mb-4"></div>
             <p className="text-gray-500 text-lg mb-4">
               No posts found. Be the first to share your thoughts about
@@ -171,144 +288,49 @@ const HomeFeed: React.FC = () => {
             </p>
             <Link
               to="/create"
-              className="inline-block bg-red-600 text-white px-6 py-3 rounded-md hover:bg-red-700 transition-colors"
+              className="inline-block bg-brand-600 text-white px-6 py-3 rounded-md hover:bg-brand-700 transition-colors"
             >
               Create First Post
             </Link>
           </div>
         ) : (
-          filteredPosts.map((post) => (
-            <div
+          posts.map((post) => (
+            <FeedPost
               key={post.id}
-              className="bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow border-red-600"
-            >
-              <div className="p-6">
-                {/* Post Flags */}
-                {post.flags && post.flags.length > 0 && (
-                  <div className="flex items-center gap-2 mb-3">
-                    {post.flags.map((flag) => (
-                      <span
-                        key={flag}
-                        className="inline-block px-2 py-1 bg-red-100 text-red-800 text-xs rounded-full font-medium"
-                      >
-                        {flag === "Question"}
-                        {flag === "Opinion"}
-                        {flag === "News"}
-                        {flag === "Discussion"}
-                        {flag}
-                      </span>
-                    ))}
-                  </div>
-                )}
-
-                <div className="flex gap-4">
-                  {/* Post Image */}
-                  {post.image_url && (
-                    <div className="flex-shrink-0">
-                      <img
-                        src={post.image_url}
-                        alt="Post image"
-                        className="w-24 h-24 object-cover rounded-lg"
-                        onError={(e) => {
-                          e.currentTarget.style.display = "none";
-                        }}
-                      />
-                    </div>
-                  )}
-
-                  {/* Post Content */}
-                  <div className="flex-1">
-                    <Link to={`/post/${post.id}`} className="block">
-                      <h2 className="text-xl font-bold text-gray-900 hover:text-red-600 mb-2 transition-colors">
-                        {post.title}
-                      </h2>
-
-                      {/* Post Description */}
-                      {post.content && (
-                        <p className="text-gray-700 mb-3 leading-relaxed">
-                          {truncateText(post.content, 25)}
-                        </p>
-                      )}
-
-                      {/* Post Meta Information */}
-                      <div className="flex items-center gap-6 text-sm text-gray-500">
-                        <span className="flex items-center gap-1">
-                          <svg
-                            className="w-4 h-4"
-                            fill="currentColor"
-                            viewBox="0 0 20 20"
-                          >
-                            <path
-                              fillRule="evenodd"
-                              d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z"
-                              clipRule="evenodd"
-                            />
-                          </svg>
-                          {formatTimeAgo(post.created_at)}
-                        </span>
-
-                        <span className="flex items-center gap-1 text-red-600">
-                          <svg
-                            className="w-4 h-4"
-                            fill="currentColor"
-                            viewBox="0 0 20 20"
-                          >
-                            <path
-                              fillRule="evenodd"
-                              d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z"
-                              clipRule="evenodd"
-                            />
-                          </svg>
-                          <span className="font-medium">{post.upvotes}</span>
-                          <span className="ml-1">upvotes</span>
-                        </span>
-
-                        <span className="flex items-center gap-1">
-                          <svg
-                            className="w-4 h-4"
-                            fill="currentColor"
-                            viewBox="0 0 20 20"
-                          >
-                            <path
-                              fillRule="evenodd"
-                              d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z"
-                              clipRule="evenodd"
-                            />
-                          </svg>
-                          <span className="font-medium">
-                            {commentCounts[post.id] || 0}
-                          </span>
-                          <span className="ml-1">comments</span>
-                        </span>
-
-                        <span className="flex items-center gap-1">
-                          <svg
-                            className="w-4 h-4"
-                            fill="currentColor"
-                            viewBox="0 0 20 20"
-                          >
-                            <path
-                              fillRule="evenodd"
-                              d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z"
-                              clipRule="evenodd"
-                            />
-                          </svg>
-                          <span>By {post.user_id.substring(0, 8)}</span>
-                        </span>
-                      </div>
-                    </Link>
-                  </div>
-                </div>
-              </div>
-            </div>
+              post={post}
+              layout={feedLayout}
+              saved={isSaved(post.id)}
+              onToggleSaved={() => toggleBookmark(post)}
+              newComments={newCommentCount(post)}
+            />
           ))
         )}
       </div>
 
+      {/* Pagination */}
+      {!loading && nextCursor && (
+        <div ref={loadMoreRef} className="flex justify-center mt-6">
+          <button
+            onClick={fetchMorePosts}
+            disabled={loadingMore}
+            className="flex items-center bg-brand-600 text-white px-6 py-3 rounded-md hover:bg-brand-700 disabled:opacity-50 transition-colors"
+          >
+            {loadingMore ? (
+              <>
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                Loading...
+              </>
+            ) : (
+              "Load more"
+            )}
+          </button>
+        </div>
+      )}
+
       {/* Floating Action Button */}
       <Link
         to="/create"
-        className="fixed bottom-6 right-6 bg-red-600 hover:bg-red-700 text-white p-4 rounded-full shadow-lg transition-colors"
+        className="fixed bottom-6 right-6 bg-brand-600 hover:bg-brand-700 text-white p-4 rounded-full shadow-lg transition-colors"
         title="Create New Post"
       >
         <svg
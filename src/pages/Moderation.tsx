@@ -0,0 +1,350 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  isApiError,
+  listModerationLog,
+  listModerationQueue,
+  moderateContent,
+  type ModerationAction,
+  type ModerationItem,
+  type ModerationLogEntry,
+} from "../api";
+import { AuthorLink } from "../components/AuthorLink";
+import { formatTimeAgo } from "../utils/format";
+import { reportReasonLabel } from "../utils/reports";
+
+// Kept for the browser session only, so a shared computer does not stay
+// signed in as a moderator
+const KEY_STORAGE_KEY = "muhub.moderator-key";
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: "Dismissed reports on",
+  hide: "Hid",
+  restore: "Restored",
+  delete: "Deleted",
+};
+
+const itemLink = (
+  item: Pick<ModerationItem, "target_type" | "target_id" | "post_id">
+) =>
+  item.target_type === "post"
+    ? `/post/${item.post_id}`
+    : `/post/${item.post_id}/comments/${item.target_id}`;
+
+const Moderation: React.FC = () => {
+  const [moderatorKey, setModeratorKey] = useState(
+    () => sessionStorage.getItem(KEY_STORAGE_KEY) ?? ""
+  );
+  const [keyInput, setKeyInput] = useState("");
+  const [tab, setTab] = useState<"queue" | "log">("queue");
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const signOut = useCallback((message = "") => {
+    sessionStorage.removeItem(KEY_STORAGE_KEY);
+    setModeratorKey("");
+    setItems([]);
+    setLog([]);
+    setError(message);
+  }, []);
+
+  const fetchData = useCallback(
+    async (key: string) => {
+      setLoading(true);
+      try {
+        const [queue, entries] = await Promise.all([
+          listModerationQueue(key),
+          listModerationLog(key),
+        ]);
+        setItems(queue);
+        setLog(entries);
+        setError("");
+      } catch (error) {
+        if (isApiError(error, "invalid_moderator_key")) {
+          signOut("Invalid moderator key");
+          return;
+        }
+        console.error("Error fetching moderation queue:", error);
+        setError("Could not load the moderation queue. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [signOut]
+  );
+
+  useEffect(() => {
+    if (moderatorKey) fetchData(moderatorKey);
+  }, [moderatorKey, fetchData]);
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!keyInput.trim()) return;
+    sessionStorage.setItem(KEY_STORAGE_KEY, keyInput.trim());
+    setModeratorKey(keyInput.trim());
+    setKeyInput("");
+  };
+
+  const handleAction = async (
+    item: ModerationItem,
+    action: ModerationAction
+  ) => {
+    if (
+      action === "delete" &&
+      !window.confirm(
+        item.target_type === "post"
+          ? "Delete this post and all of its comments? This cannot be undone."
+          : "Delete this comment? This cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(item.target_id);
+    try {
+      await moderateContent(
+        moderatorKey,
+        { type: item.target_type, id: item.target_id },
+        action
+      );
+      await fetchData(moderatorKey);
+    } catch (error) {
+      if (isApiError(error, "invalid_moderator_key")) {
+        signOut("Invalid moderator key");
+        return;
+      }
+      console.error("Error moderating content:", error);
+      setError("That action failed. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!moderatorKey) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="bg-surface rounded-lg shadow-sm border p-6">
+          <h1 className="text-2xl font-bold text-brand-800 mb-2">Moderation</h1>
+          <p className="text-gray-600 mb-4">
+            Enter your moderator key to review reported content.
+          </p>
+          <form onSubmit={handleSignIn} className="space-y-3">
+            <input
+              type="password"
+              value={keyInput}
+              onChange={(e) => setKeyInput(e.target.value)}
+              required
+              autoFocus
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder="Moderator key"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              className="w-full bg-brand-600 text-white py-3 rounded-lg font-medium hover:bg-brand-700 transition-colors"
+            >
+              Continue
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 rounded-lg font-medium transition-colors ${
+      active
+        ? "bg-brand-600 text-white"
+        : "bg-surface border text-gray-700 hover:bg-gray-50"
+    }`;
+  const actionClass =
+    "px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50";
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-brand-800">Moderation</h1>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setTab("queue")}
+            className={tabClass(tab === "queue")}
+          >
+            Queue ({items.length})
+          </button>
+          <button
+            type="button"
+            onClick={() => setTab("log")}
+            className={tabClass(tab === "log")}
+          >
+            Audit log
+          </button>
+          <button
+            type="button"
+            onClick={() => signOut()}
+            className="px-4 py-2 text-sm text-gray-500 hover:text-brand-600"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {loading && items.length === 0 && log.length === 0 ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-brand-600"></div>
+        </div>
+      ) : tab === "queue" ? (
+        items.length === 0 ? (
+          <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+            <div className="text-6xl mb-4">✅</div>
+            <p className="text-gray-600">Nothing waiting for review.</p>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {items.map((item) => (
+              <li
+                key={item.target_id}
+                className="bg-surface rounded-lg shadow-sm border p-4"
+              >
+                <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+                  <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700 font-medium uppercase">
+                    {item.target_type}
+                  </span>
+                  {item.hidden_at && (
+                    <span className="px-2 py-1 rounded-full bg-gray-800 text-gray-50 font-medium">
+                      Hidden {formatTimeAgo(item.hidden_at).toLowerCase()}
+                    </span>
+                  )}
+                  {item.report_count > 0 && (
+                    <span className="px-2 py-1 rounded-full bg-brand-100 text-brand-800 font-medium">
+                      {item.report_count}{" "}
+                      {item.report_count === 1 ? "report" : "reports"}
+                    </span>
+                  )}
+                  {item.reasons.map((reason) => (
+                    <span
+                      key={reason}
+                      className="px-2 py-1 rounded-full border text-gray-600"
+                    >
+                      {reportReasonLabel(reason)}
+                    </span>
+                  ))}
+                </div>
+
+                <Link
+                  to={itemLink(item)}
+                  className="font-semibold text-gray-900 hover:text-brand-600"
+                >
+                  {item.target_type === "comment" && "Comment on "}
+                  {item.title}
+                </Link>
+                {item.content && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap line-clamp-4">
+                    {item.content}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  By <AuthorLink userId={item.user_id} />
+                  {item.last_reported_at &&
+                    ` • last reported ${formatTimeAgo(
+                      item.last_reported_at
+                    ).toLowerCase()}`}
+                </p>
+                {item.details.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-sm text-gray-600 border-l-2 border-gray-200 pl-3">
+                    {item.details.map((detail, index) => (
+                      <li key={index}>“{detail}”</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {item.report_count > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleAction(item, "dismiss")}
+                      disabled={busyId === item.target_id}
+                      className={actionClass}
+                    >
+                      Dismiss reports
+                    </button>
+                  )}
+                  {item.hidden_at ? (
+                    <button
+                      type="button"
+                      onClick={() => handleAction(item, "restore")}
+                      disabled={busyId === item.target_id}
+                      className={actionClass}
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleAction(item, "hide")}
+                      disabled={busyId === item.target_id}
+                      className={actionClass}
+                    >
+                      Hide
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleAction(item, "delete")}
+                    disabled={busyId === item.target_id}
+                    className="px-3 py-1 text-sm bg-brand-600 text-white rounded-md hover:bg-brand-700 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : log.length === 0 ? (
+        <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+          <p className="text-gray-600">No moderation actions yet.</p>
+        </div>
+      ) : (
+        <ul className="bg-surface rounded-lg shadow-sm border divide-y">
+          {log.map((entry) => (
+            <li key={entry.id} className="p-4 text-sm">
+              <p className="text-gray-900">
+                <span className="font-medium">{entry.moderator}</span>{" "}
+                {ACTION_LABELS[entry.action].toLowerCase()} a{" "}
+                {entry.target_type}
+                {entry.action !== "delete" ||
+                entry.target_type === "comment" ? (
+                  <>
+                    {" "}
+                    <Link
+                      to={itemLink(entry)}
+                      className="text-brand-600 hover:underline"
+                    >
+                      {entry.summary || "(empty)"}
+                    </Link>
+                  </>
+                ) : (
+                  <span className="text-gray-600"> {entry.summary}</span>
+                )}
+              </p>
+              <p
+                className="text-xs text-gray-500"
+                title={new Date(entry.created_at).toLocaleString()}
+              >
+                {formatTimeAgo(entry.created_at)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Moderation;
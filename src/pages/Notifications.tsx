@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  NOTIFICATION_TYPES,
+  getMutedNotificationTypes,
+  isApiError,
+  listNotifications,
+  markNotificationsRead,
+  setMutedNotificationTypes,
+  type NotificationType,
+  type UserNotification,
+} from "../api";
+import { AuthorLink } from "../components/AuthorLink";
+import { useIdentity } from "../context/IdentityContext";
+import { useNotifications } from "../context/NotificationsContext";
+import { formatTimeAgo } from "../utils/format";
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  comment: "New comments on my posts",
+  reply: "Replies to my comments",
+  milestone: "Upvote milestones",
+};
+
+const notificationLink = (notification: UserNotification) =>
+  notification.comment_id
+    ? `/post/${notification.post_id}/comments/${notification.comment_id}`
+    : `/post/${notification.post_id}`;
+
+const Notifications: React.FC = () => {
+  const { identity } = useIdentity();
+  const { refreshUnreadCount } = useNotifications();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [muted, setMuted] = useState<NotificationType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const [notifications, muted] = await Promise.all([
+        listNotifications(identity.id, identity.secret),
+        getMutedNotificationTypes(identity.id, identity.secret),
+      ]);
+      setNotifications(notifications);
+      setMuted(muted);
+      setError("");
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      setError("Could not load your notifications. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [identity]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markRead = async (ids?: string[]) => {
+    const now = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((notification) =>
+        !notification.read_at && (!ids || ids.includes(notification.id))
+          ? { ...notification, read_at: now }
+          : notification
+      )
+    );
+    try {
+      await markNotificationsRead(identity.id, identity.secret, ids);
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      setError("Could not mark notifications as read. Please try again.");
+      fetchNotifications();
+    } finally {
+      refreshUnreadCount();
+    }
+  };
+
+  const toggleMuted = async (type: NotificationType) => {
+    const next = muted.includes(type)
+      ? muted.filter((candidate) => candidate !== type)
+      : [...muted, type];
+    setSavingSettings(true);
+    try {
+      await setMutedNotificationTypes(identity.id, identity.secret, next);
+      await fetchNotifications();
+      refreshUnreadCount();
+    } catch (error) {
+      console.error("Error saving notification settings:", error);
+      setError(
+        // The secret is checked against what the identity has written
+        isApiError(error, "invalid_secret_key")
+          ? "You can choose what to hear about once you have posted or commented."
+          : "Could not save your notification settings. Please try again."
+      );
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const describe = (notification: UserNotification) => {
+    const title = (
+      <Link
+        to={notificationLink(notification)}
+        onClick={() => {
+          if (!notification.read_at) markRead([notification.id]);
+        }}
+        className="font-semibold text-gray-900 hover:text-brand-600"
+      >
+        {notification.post_title}
+      </Link>
+    );
+    const actor = notification.actor_id && (
+      <AuthorLink
+        userId={notification.actor_id}
+        className="font-medium text-gray-900"
+      />
+    );
+
+    switch (notification.type) {
+      case "comment":
+        return (
+          <>
+            {actor} commented on your post {title}
+          </>
+        );
+      case "reply":
+        return (
+          <>
+            {actor} replied to your comment on {title}
+          </>
+        );
+      case "milestone":
+        return (
+          <>
+            Your {notification.comment_id ? "comment on" : "post"} {title}{" "}
+            reached {notification.milestone} upvotes
+          </>
+        );
+    }
+  };
+
+  const hasUnread = notifications.some((notification) => !notification.read_at);
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-6">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold text-brand-800 mb-2">
+          Notifications
+        </h1>
+        <p className="text-gray-600">
+          Comments on your posts, replies to your comments and upvote milestones
+        </p>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-brand-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-end mb-3">
+            <button
+              type="button"
+              onClick={() => markRead()}
+              disabled={!hasUnread}
+              className="text-sm font-medium text-brand-600 hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Mark all as read
+            </button>
+          </div>
+
+          {notifications.length === 0 ? (
+            <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+              <div className="text-6xl mb-4">🔔</div>
+              <p className="text-gray-600">
+                Nothing yet. You will hear about comments, replies and votes on
+                what you write here.
+              </p>
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`rounded-lg shadow-sm border p-4 ${
+                    notification.read_at
+                      ? "bg-surface"
+                      : "bg-brand-50 border-brand-500"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 text-sm text-gray-700">
+                      <p>{describe(notification)}</p>
+                      {notification.comment_excerpt && (
+                        <p className="mt-1 text-gray-600 line-clamp-2">
+                          {notification.comment_excerpt}
+                        </p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">
+                        {formatTimeAgo(notification.created_at)}
+                      </p>
+                    </div>
+                    {!notification.read_at && (
+                      <button
+                        type="button"
+                        onClick={() => markRead([notification.id])}
+                        className="shrink-0 text-xs font-medium text-brand-600 hover:underline"
+                      >
+                        Mark as read
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <section className="mt-8 bg-surface rounded-lg shadow-sm border p-4">
+            <h2 className="font-semibold text-gray-900 mb-1">
+              Notify me about
+            </h2>
+            <p className="text-sm text-gray-600 mb-3">
+              Muted types are not recorded while they stay muted.
+            </p>
+            <div className="space-y-2">
+              {NOTIFICATION_TYPES.map((type) => (
+                <label
+                  key={type}
+                  className="flex items-center gap-2 text-sm text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={!muted.includes(type)}
+                    onChange={() => toggleMuted(type)}
+                    disabled={savingSettings}
+                    className="rounded text-brand-600"
+                  />
+                  {TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Notifications;
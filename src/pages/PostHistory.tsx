@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  getPost,
+  isApiError,
+  listPostRevisions,
+  updatePost,
+  type Post,
+  type PostChanges,
+  type PostRevision,
+} from "../api";
+import { DiffView, type DiffMode } from "../components/DiffView";
+import { formatTimeAgo } from "../utils/format";
+
+interface PostVersion {
+  label: string;
+  // When this version was written
+  since: string;
+  fields: PostChanges;
+  current: boolean;
+}
+
+const toFields = (source: PostChanges): PostChanges => ({
+  title: source.title,
+  content: source.content,
+  image_url: source.image_url,
+  video_url: source.video_url,
+  flags: [...source.flags],
+});
+
+// Each revision holds the fields an edit replaced, so a version was written
+// when the edit before it happened (or when the post was created).
+const buildVersions = (
+  post: Post,
+  revisions: PostRevision[]
+): PostVersion[] => [
+  ...revisions.map((revision, index) => ({
+    label: index === 0 ? "Original" : `Version ${index + 1}`,
+    since: index === 0 ? post.created_at : revisions[index - 1].created_at,
+    fields: toFields(revision),
+    current: false,
+  })),
+  {
+    label: revisions.length === 0 ? "Original" : "Current",
+    since: post.edited_at ?? post.created_at,
+    fields: toFields(post),
+    current: true,
+  },
+];
+
+const sameFlags = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((flag) => b.includes(flag));
+
+const PostHistory: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [post, setPost] = useState<Post | null>(null);
+  const [versions, setVersions] = useState<PostVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromIndex, setFromIndex] = useState(0);
+  const [toIndex, setToIndex] = useState(0);
+  const [mode, setMode] = useState<DiffMode>("inline");
+  const [secretKey, setSecretKey] = useState("");
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState("");
+
+  const fetchHistory = useCallback(async (postId: string) => {
+    try {
+      const [data, revisions] = await Promise.all([
+        getPost(postId),
+        listPostRevisions(postId),
+      ]);
+      setPost(data);
+      if (data) {
+        const all = buildVersions(data, revisions);
+        setVersions(all);
+        // Start with the most recent edit
+        setFromIndex(Math.max(all.length - 2, 0));
+        setToIndex(all.length - 1);
+      }
+    } catch (error) {
+      console.error("Error fetching post history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (id) {
+      fetchHistory(id);
+    }
+  }, [id, fetchHistory]);
+
+  const handleRestore = async (version: PostVersion) => {
+    if (!post) return;
+    if (!secretKey) {
+      setRestoreError("Enter your secret key to restore a version");
+      return;
+    }
+    if (
+      !window.confirm(
+        `Restore "${version.label}"? The current version stays in the history.`
+      )
+    ) {
+      return;
+    }
+
+    setRestoring(true);
+    setRestoreError("");
+    try {
+      await updatePost(post.id, secretKey, version.fields);
+      await fetchHistory(post.id);
+    } catch (error) {
+      if (isApiError(error, "invalid_secret_key")) {
+        setRestoreError("Invalid secret key");
+        return;
+      }
+      console.error("Error restoring post version:", error);
+      setRestoreError("Error restoring this version. Please try again.");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-brand-600"></div>
+        <span className="ml-4 text-lg text-gray-600">Loading history...</span>
+      </div>
+    );
+  }
+
+  if (!post) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-6">
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">⚽</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Post not found
+          </h1>
+          <p className="text-gray-600 mb-4">
+            This football post might have been deleted.
+          </p>
+          <Link
+            to="/"
+            className="bg-brand-600 text-white px-6 py-3 rounded-lg hover:bg-brand-700"
+          >
+            Back to Football Hub
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const from = versions[fromIndex];
+  const to = versions[toIndex];
+  const changedFields = [
+    {
+      label: "Title",
+      before: from.fields.title,
+      after: to.fields.title,
+    },
+    {
+      label: "Content",
+      before: from.fields.content,
+      after: to.fields.content,
+    },
+    {
+      label: "Image URL",
+      before: from.fields.image_url,
+      after: to.fields.image_url,
+    },
+    {
+      label: "Video URL",
+      before: from.fields.video_url,
+      after: to.fields.video_url,
+    },
+  ].filter((field) => field.before !== field.after);
+  const flagsChanged = !sameFlags(from.fields.flags, to.fields.flags);
+
+  const selectClass =
+    "px-3 py-2 border border-gray-300 rounded-lg bg-surface text-gray-900 focus:outline-none focus:ring-2 focus:ring-brand-500";
+  const modeClass = (active: boolean) =>
+    `px-3 py-2 text-sm font-medium transition-colors ${
+      active ? "bg-brand-600 text-white" : "text-gray-700 hover:bg-gray-50"
+    }`;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6">
+      <div className="mb-6">
+        <Link
+          to={`/post/${post.id}`}
+          className="flex items-center text-brand-600 hover:text-brand-700 transition-colors"
+        >
+          <svg
+            className="w-5 h-5 mr-2"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+          Back to Post
+        </Link>
+      </div>
+
+      <div className="bg-surface rounded-lg shadow-sm border p-6 mb-6">
+        <h1 className="text-2xl font-bold text-brand-800 mb-1">Edit history</h1>
+        <p className="text-gray-600 mb-6">{post.title}</p>
+
+        {versions.length < 2 ? (
+          <p className="text-gray-500">This post has not been edited.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-6">
+              <label className="text-sm text-gray-700">Compare</label>
+              <select
+                value={fromIndex}
+                onChange={(e) => setFromIndex(Number(e.target.value))}
+                className={selectClass}
+              >
+                {versions.map((version, index) => (
+                  <option key={index} value={index}>
+                    {version.label}
+                  </option>
+                ))}
+              </select>
+              <label className="text-sm text-gray-700">with</label>
+              <select
+                value={toIndex}
+                onChange={(e) => setToIndex(Number(e.target.value))}
+                className={selectClass}
+              >
+                {versions.map((version, index) => (
+                  <option key={index} value={index}>
+                    {version.label}
+                  </option>
+                ))}
+              </select>
+              <div className="flex border border-gray-300 rounded-lg overflow-hidden ml-auto">
+                <button
+                  type="button"
+                  onClick={() => setMode("inline")}
+                  className={modeClass(mode === "inline")}
+                >
+                  Inline
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode("split")}
+                  className={modeClass(mode === "split")}
+                >
+                  Side by side
+                </button>
+              </div>
+            </div>
+
+            {changedFields.length === 0 && !flagsChanged ? (
+              <p className="text-gray-500">These versions are identical.</p>
+            ) : (
+              <div className="space-y-5">
+                {changedFields.map((field) => (
+                  <div key={field.label}>
+                    <h2 className="text-sm font-semibold text-gray-700 mb-2">
+                      {field.label}
+                    </h2>
+                    <DiffView
+                      before={field.before}
+                      after={field.after}
+                      mode={mode}
+                    />
+                  </div>
+                ))}
+                {flagsChanged && (
+                  <div>
+                    <h2 className="text-sm font-semibold text-gray-700 mb-2">
+                      Categories
+                    </h2>
+                    <div className="flex flex-wrap gap-2">
+                      {from.fields.flags
+                        .filter((flag) => !to.fields.flags.includes(flag))
+                        .map((flag) => (
+                          <span
+                            key={`removed-${flag}`}
+                            className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-900 line-through"
+                          >
+                            {flag}
+                          </span>
+                        ))}
+                      {to.fields.flags
+                        .filter((flag) => !from.fields.flags.includes(flag))
+                        .map((flag) => (
+                          <span
+                            key={`added-${flag}`}
+                            className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-900"
+                          >
+                            {flag}
+                          </span>
+                        ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-surface rounded-lg shadow-sm border p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Versions</h2>
+
+        {versions.length > 1 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Secret key, to restore an older version
+            </label>
+            <input
+              type="password"
+              value={secretKey}
+              onChange={(e) => setSecretKey(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder="Secret key"
+            />
+            {restoreError && (
+              <p className="text-sm text-red-600 mt-1">{restoreError}</p>
+            )}
+          </div>
+        )}
+
+        <ul className="divide-y">
+          {[...versions].reverse().map((version) => (
+            <li
+              key={version.label}
+              className="flex items-center justify-between gap-4 py-3"
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  {version.label}
+                  {version.current && versions.length > 1 && (
+                    <span className="ml-2 text-xs font-normal text-brand-600">
+                      live
+                    </span>
+                  )}
+                </p>
+                <p
+                  className="text-sm text-gray-500"
+                  title={new Date(version.since).toLocaleString()}
+                >
+                  {formatTimeAgo(version.since)} · {version.fields.title}
+                </p>
+              </div>
+              {!version.current && (
+                <button
+                  type="button"
+                  onClick={() => handleRestore(version)}
+                  disabled={restoring}
+                  className="px-4 py-2 border border-brand-600 text-brand-600 rounded-md text-sm hover:bg-brand-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Restore
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default PostHistory;
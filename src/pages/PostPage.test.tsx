@@ -0,0 +1,77 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import { getBackend } from "../api/backend";
+import { renderPage } from "../test/renderPage";
+import PostPage from "./PostPage";
+
+const routes = [
+  { path: "/", element: <p>Home</p> },
+  { path: "/post/:id", element: <PostPage /> },
+];
+
+describe("PostPage", () => {
+  it("shows the post with its comments", async () => {
+    renderPage(routes, "/post/seed-post-1");
+
+    expect(
+      await screen.findByRole("heading", {
+        name: "Match preview: United vs Liverpool at Old Trafford",
+      })
+    ).toBeInTheDocument();
+    expect(
+      await screen.findByText(
+        "Flat four for me. We get overrun in wide areas otherwise."
+      )
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(
+        "A back three gives us cover against their full backs though."
+      )
+    ).toBeInTheDocument();
+  });
+
+  it("adds a new comment to the thread", async () => {
+    renderPage(routes, "/post/seed-post-2");
+    await screen.findByRole("heading", {
+      name: "Is the academy still the heart of the club?",
+    });
+
+    await userEvent.type(
+      screen.getByPlaceholderText("Add a comment..."),
+      "Give the youngsters a proper run in the cups."
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Post Comment" }));
+
+    expect(
+      await screen.findByText("Give the youngsters a proper run in the cups.")
+    ).toBeInTheDocument();
+    expect(screen.getByPlaceholderText("Add a comment...")).toHaveValue("");
+  });
+
+  it("leaves deleted comments out of the comment count", async () => {
+    const comment = await getBackend().addComment({
+      post_id: "seed-post-2",
+      content: "Posted in the wrong thread, sorry",
+      user_id: "seed-user-sirmatt",
+      author_key: "sirmatt-secret",
+    });
+    await getBackend().deleteComment(comment.id, "sirmatt-secret");
+    renderPage(routes, "/post/seed-post-2");
+
+    expect(
+      await screen.findByRole("heading", { name: "Comments (1)" })
+    ).toBeInTheDocument();
+  });
+
+  it("says when the post does not exist", async () => {
+    renderPage(routes, "/post/missing-post");
+
+    expect(
+      await screen.findByRole("heading", { name: "Post not found" })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "Go back to home" })
+    ).toHaveAttribute("href", "/");
+  });
+});
@@ -1,167 +1,313 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
-import supabase from "../utils/supabase";
-
-interface Post {
-  id: string;
-  title: string;
-  content: string;
-  image_url: string;
-  upvotes: number;
-  created_at: string;
-  secret_key: string;
-  user_id: string;
-}
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-}
+import {
+  addComment,
+  castVote,
+  deleteComment,
+  deletePost,
+  errorMessage,
+  getPost,
+  getVotes,
+  isApiError,
+  listComments,
+  listReferencingPosts,
+  markBookmarkSeen,
+  restorePost,
+  subscribeToPost,
+  updateComment,
+  type Comment,
+  type Post,
+  type PostVotes,
+  type VoteTarget,
+  type VoteValue,
+} from "../api";
+import { useIdentity } from "../context/IdentityContext";
+import { useToast } from "../context/ToastContext";
+import { useBookmarks } from "../hooks/useBookmarks";
+import { AuthorLink } from "../components/AuthorLink";
+import { BookmarkButton } from "../components/BookmarkButton";
+import { CommentThread } from "../components/CommentThread";
+import { FixtureHeader } from "../components/FixtureHeader";
+import { Markdown } from "../components/Markdown";
+import { ReportDialog } from "../components/ReportDialog";
+import { TagList } from "../components/TagList";
+import { VideoPlayer } from "../components/VideoPlayer";
+import { VoteButtons } from "../components/VoteButtons";
+import { buildCommentTree, findCommentNode } from "../utils/commentTree";
+import { findFlag } from "../utils/flags";
+import { formatTimeAgo } from "../utils/format";
+import { parseVideoUrl } from "../utils/video";
+
+// Adds a comment, or replaces it if it is already listed, so comments that
+// arrive both from a request and from the realtime stream appear once.
+const upsertComment = (comments: Comment[], comment: Comment) =>
+  comments.some((existing) => existing.id === comment.id)
+    ? comments.map((existing) =>
+        existing.id === comment.id ? comment : existing
+      )
+    : [...comments, comment];
+
+// How long the "Undo" button stays up after deleting a post
+const UNDO_WINDOW_MS = 10000;
 
 const PostPage: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+  const { id, commentId } = useParams<{ id: string; commentId: string }>();
   const navigate = useNavigate();
+  const { identity } = useIdentity();
+  const { showToast } = useToast();
+  const { isSaved, toggleBookmark } = useBookmarks();
   const [post, setPost] = useState<Post | null>(null);
+  const [referencedPost, setReferencedPost] = useState<Post | null>(null);
+  const [referencedBy, setReferencedBy] = useState<Post[]>([]);
   const [comments, setComments] = useState<Comment[]>([]);
+  const [votes, setVotes] = useState<PostVotes>({ post: 0, comments: {} });
   const [loading, setLoading] = useState(true);
   const [newComment, setNewComment] = useState("");
+  const [newCommentKey, setNewCommentKey] = useState("");
   const [secretKey, setSecretKey] = useState("");
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteError, setDeleteError] = useState("");
+  const [commentError, setCommentError] = useState("");
+  const [reportTarget, setReportTarget] = useState<VoteTarget | null>(null);
 
-  useEffect(() => {
-    if (id) {
-      fetchPost();
-      fetchComments();
+  const fetchReferencedPost = useCallback(async (repostId: string | null) => {
+    if (!repostId) {
+      setReferencedPost(null);
+      return;
     }
-  }, [id]);
 
-  const fetchPost = async () => {
     try {
-      const { data, error } = await supabase
-        .from("posts")
-        .select("*")
-        .eq("id", id)
-        .single();
-
-      if (error) throw error;
-      setPost(data);
+      setReferencedPost(await getPost(repostId));
     } catch (error) {
-      console.error("Error fetching post:", error);
-    } finally {
-      setLoading(false);
+      console.error("Error fetching referenced post:", error);
     }
-  };
+  }, []);
+
+  const fetchPost = useCallback(
+    async (postId: string) => {
+      try {
+        const data = await getPost(postId);
+        setPost(data);
+        if (data) {
+          await fetchReferencedPost(data.repost_id);
+        }
+      } catch (error) {
+        console.error("Error fetching post:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [fetchReferencedPost]
+  );
 
-  const fetchComments = async () => {
+  const fetchReferencedBy = useCallback(async (postId: string) => {
     try {
-      const { data, error } = await supabase
-        .from("comments")
-        .select("*")
-        .eq("post_id", id)
-        .order("created_at", { ascending: true });
-
-      if (error) throw error;
-      setComments(data || []);
+      setReferencedBy(await listReferencingPosts(postId));
+    } catch (error) {
+      console.error("Error fetching referencing posts:", error);
+    }
+  }, []);
+
+  const fetchComments = useCallback(async (postId: string) => {
+    try {
+      setComments(await listComments(postId));
     } catch (error) {
       console.error("Error fetching comments:", error);
     }
-  };
+  }, []);
+
+  const fetchVotes = useCallback(
+    async (postId: string) => {
+      try {
+        setVotes(await getVotes(postId, identity.secret));
+      } catch (error) {
+        console.error("Error fetching votes:", error);
+      }
+    },
+    [identity.secret]
+  );
 
-  const handleUpvote = async () => {
-    if (!post) return;
+  useEffect(() => {
+    if (id) {
+      fetchPost(id);
+      fetchComments(id);
+      fetchReferencedBy(id);
+    }
+  }, [id, fetchPost, fetchComments, fetchReferencedBy]);
 
-    try {
-      const { error } = await supabase
-        .from("posts")
-        .update({ upvotes: post.upvotes + 1 })
-        .eq("id", post.id);
+  useEffect(() => {
+    if (id) fetchVotes(id);
+  }, [id, fetchVotes]);
 
-      if (error) throw error;
-      setPost({ ...post, upvotes: post.upvotes + 1 });
+  // Comments already shown here no longer count as new on the saved list
+  const commentCount = post?.comment_count;
+  useEffect(() => {
+    if (!id || commentCount === undefined) return;
+    markBookmarkSeen(identity.secret, id).catch((error) =>
+      console.error("Error updating bookmark:", error)
+    );
+  }, [id, identity.secret, commentCount]);
+
+  // Keep comments and scores live while the page is open
+  useEffect(() => {
+    if (!id) return;
+    return subscribeToPost(id, {
+      onPost: (updated) => setPost((prev) => prev && { ...prev, ...updated }),
+      onComment: (comment) =>
+        setComments((prev) => upsertComment(prev, comment)),
+    });
+  }, [id]);
+
+  // The identity secret is the voter key, so each browser identity gets one
+  // vote per post or comment
+  const handleVote = async (target: VoteTarget, value: VoteValue) => {
+    try {
+      const score = await castVote(target, identity.secret, value);
+      if (target.type === "post") {
+        setPost((prev) => prev && { ...prev, upvotes: score });
+        setVotes((prev) => ({ ...prev, post: value }));
+      } else {
+        setComments((prev) =>
+          prev.map((comment) =>
+            comment.id === target.id ? { ...comment, upvotes: score } : comment
+          )
+        );
+        setVotes((prev) => ({
+          ...prev,
+          comments: { ...prev.comments, [target.id]: value },
+        }));
+      }
     } catch (error) {
-      console.error("Error upvoting:", error);
+      console.error("Error voting:", error);
     }
   };
 
+  const handleCommentVote = (commentId: string, value: VoteValue) =>
+    handleVote({ type: "comment", id: commentId }, value);
+
   const handleAddComment = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newComment.trim()) return;
+    if (!newComment.trim() || !id) return;
 
     try {
-      const userId = Math.random().toString(36).substring(2, 15);
-
-      const { data, error } = await supabase
-        .from("comments")
-        .insert([
-          {
-            post_id: id,
-            content: newComment,
-            user_id: userId,
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) throw error;
-      setComments([...comments, data]);
+      const comment = await addComment({
+        post_id: id,
+        content: newComment,
+        user_id: identity.id,
+        secret_key: newCommentKey,
+        author_key: identity.secret,
+      });
+
+      setComments((prev) => upsertComment(prev, comment));
       setNewComment("");
+      setNewCommentKey("");
+      setCommentError("");
     } catch (error) {
       console.error("Error adding comment:", error);
+      setCommentError(
+        errorMessage(error, "Could not post your comment. Please try again.")
+      );
     }
   };
 
-  const handleDelete = async () => {
-    if (!post || secretKey !== post.secret_key) {
-      alert("Invalid secret key");
-      return;
-    }
+  const handleReply = async (parentId: string, content: string) => {
+    if (!id) return;
 
     try {
-      // First delete all comments associated with this post
-      const { error: commentsError } = await supabase
-        .from("comments")
-        .delete()
-        .eq("post_id", post.id);
-
-      if (commentsError) {
-        console.error("Error deleting comments:", commentsError);
-        // Continue with post deletion even if comment deletion fails
-      }
+      const reply = await addComment({
+        post_id: id,
+        parent_id: parentId,
+        content,
+        user_id: identity.id,
+        author_key: identity.secret,
+      });
+
+      setComments((prev) => upsertComment(prev, reply));
+    } catch (error) {
+      console.error("Error adding reply:", error);
+      throw error;
+    }
+  };
 
-      // Then delete the post
-      const { error: postError } = await supabase
-        .from("posts")
-        .delete()
-        .eq("id", post.id);
+  // Without an explicit key the identity secret proves authorship
+  const handleEditComment = async (
+    commentId: string,
+    content: string,
+    key?: string
+  ) => {
+    await updateComment(commentId, key || identity.secret, content);
+    setComments((prev) =>
+      prev.map((comment) =>
+        comment.id === commentId
+          ? { ...comment, content, edited_at: new Date().toISOString() }
+          : comment
+      )
+    );
+  };
 
-      if (postError) throw postError;
+  const handleDeleteComment = async (commentId: string, key?: string) => {
+    await deleteComment(commentId, key || identity.secret);
+    setComments((prev) =>
+      prev.map((comment) =>
+        comment.id === commentId
+          ? { ...comment, content: "", deleted_at: new Date().toISOString() }
+          : comment
+      )
+    );
+  };
 
-      alert("Post and all associated comments deleted successfully!");
+  const video = post ? parseVideoUrl(post.video_url) : null;
+  const commentTree = buildCommentTree(comments);
+  // When following a "continue this thread" link only that sub-thread is shown
+  const focusedNode = commentId
+    ? findCommentNode(commentTree, commentId)
+    : null;
+
+  const handleDelete = async () => {
+    if (!post || !secretKey) {
+      setDeleteError("Invalid secret key");
+      return;
+    }
+
+    try {
+      // Only moves the post to the trash, so it can still be undone
+      await deletePost(post.id, secretKey);
+
+      const postId = post.id;
+      const key = secretKey;
+      showToast({
+        message: "Post moved to trash",
+        duration: UNDO_WINDOW_MS,
+        action: {
+          label: "Undo",
+          onClick: async () => {
+            try {
+              await restorePost(postId, key);
+              navigate(`/post/${postId}`);
+            } catch (error) {
+              console.error("Error restoring post:", error);
+              showToast({
+                message: "Could not undo. The post is still in your trash.",
+              });
+            }
+          },
+        },
+      });
       navigate("/");
     } catch (error) {
+      if (isApiError(error, "invalid_secret_key")) {
+        setDeleteError("Invalid secret key");
+        return;
+      }
       console.error("Error deleting post:", error);
-      alert("Failed to delete post. Please try again.");
+      setDeleteError("Failed to delete post. Please try again.");
     }
   };
 
-  const formatTimeAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffInHours = Math.floor(
-      (now.getTime() - date.getTime()) / (1000 * 60 * 60)
-    );
-
-    if (diffInHours < 1) return "Just now";
-    if (diffInHours < 24) return `${diffInHours}h ago`;
-    return `${Math.floor(diffInHours / 24)}d ago`;
-  };
-
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-600"></div>
       </div>
     );
   }
@@ -171,7 +317,7 @@ const PostPage: React.FC = () => {
       <div className="max-w-4xl mx-auto px-4 py-6">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-gray-900">Post not found</h1>
-          <Link to="/" className="text-red-600 hover:underline">
+          <Link to="/" className="text-brand-600 hover:underline">
             Go back to home
           </Link>
         </div>
@@ -181,37 +327,90 @@ const PostPage: React.FC = () => {
 
   return (
     <div className="max-w-4xl mx-auto px-4 py-6">
+      {post.fixture_id && (
+        <FixtureHeader fixtureId={post.fixture_id} postId={post.id} />
+      )}
+
       {/* Post Content */}
-      <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+      <div className="bg-surface rounded-lg shadow-sm border p-6 mb-6">
         <div className="flex items-start justify-between mb-4">
           <div className="flex-1">
+            {post.flags.length > 0 && (
+              <div className="flex items-center gap-2 mb-2">
+                {post.flags.map((flag) => (
+                  <span
+                    key={flag}
+                    className="inline-block px-2 py-1 bg-brand-100 text-brand-800 text-xs rounded-full font-medium"
+                  >
+                    {findFlag(flag)?.emoji} {flag}
+                  </span>
+                ))}
+              </div>
+            )}
             <h1 className="text-2xl font-bold text-gray-900 mb-2">
               {post.title}
             </h1>
             <div className="text-sm text-gray-500">
-              Posted {formatTimeAgo(post.created_at)} by {post.user_id}
+              Posted {formatTimeAgo(post.created_at)} by{" "}
+              <AuthorLink userId={post.user_id}>{post.user_id}</AuthorLink>
+              {post.edited_at && (
+                <>
+                  {" "}
+                  •{" "}
+                  <Link
+                    to={`/post/${post.id}/history`}
+                    className="italic hover:text-brand-600 hover:underline"
+                    title={new Date(post.edited_at).toLocaleString()}
+                  >
+                    edited {formatTimeAgo(post.edited_at).toLowerCase()}
+                  </Link>
+                </>
+              )}
             </div>
+            <TagList tags={post.tags} className="mt-2" />
           </div>
-          <div className="flex items-center gap-2">
-            <button
-              onClick={handleUpvote}
-              className="flex items-center gap-1 px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-md"
-            >
-              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                <path
-                  fillRule="evenodd"
-                  d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z"
-                  clipRule="evenodd"
-                />
-              </svg>
-              {post.upvotes}
-            </button>
-          </div>
+          <VoteButtons
+            score={post.upvotes}
+            value={votes.post}
+            onVote={(value) => handleVote({ type: "post", id: post.id }, value)}
+          />
         </div>
 
-        {post.content && (
+        {post.repost_id && (
           <div className="mb-4">
-            <p className="text-gray-700 whitespace-pre-wrap">{post.content}</p>
+            <div className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">
+              Reposted from
+            </div>
+            {referencedPost ? (
+              <Link
+                to={`/post/${referencedPost.id}`}
+                className="block p-4 border border-brand-200 bg-brand-50 rounded-lg hover:border-brand-400 transition-colors"
+              >
+                <h2 className="font-semibold text-gray-900">
+                  {referencedPost.title}
+                </h2>
+                {referencedPost.content && (
+                  <div className="text-sm text-gray-700 mt-1 line-clamp-3">
+                    <Markdown content={referencedPost.content} compact />
+                  </div>
+                )}
+                <div className="text-xs text-gray-500 mt-2">
+                  {formatTimeAgo(referencedPost.created_at)} by{" "}
+                  {referencedPost.user_id.substring(0, 8)} •{" "}
+                  {referencedPost.upvotes} upvotes
+                </div>
+              </Link>
+            ) : (
+              <div className="p-4 border border-gray-200 bg-gray-50 rounded-lg text-sm text-gray-500">
+                The referenced post is no longer available.
+              </div>
+            )}
+          </div>
+        )}
+
+        {post.content && (
+          <div className="mb-4 text-gray-700">
+            <Markdown content={post.content} />
           </div>
         )}
 
@@ -228,25 +427,49 @@ const PostPage: React.FC = () => {
           </div>
         )}
 
+        {video && (
+          <div className="mb-4">
+            <VideoPlayer video={video} />
+          </div>
+        )}
+
         {/* Edit/Delete Controls */}
         <div className="flex gap-2 pt-4 border-t">
+          <Link
+            to={`/create?repost=${post.id}`}
+            className="px-4 py-2 border border-brand-600 text-brand-600 rounded-md hover:bg-brand-50"
+          >
+            Repost
+          </Link>
           <Link
             to={`/edit/${post.id}`}
-            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+            className="px-4 py-2 bg-brand-600 text-white rounded-md hover:bg-brand-700"
           >
             Edit Post
           </Link>
           <button
             onClick={() => setShowDeleteConfirm(true)}
-            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+            className="px-4 py-2 bg-brand-600 text-white rounded-md hover:bg-brand-700"
           >
             Delete Post
           </button>
+          <BookmarkButton
+            saved={isSaved(post.id)}
+            onToggle={() => toggleBookmark(post)}
+            className="ml-auto"
+          />
+          <button
+            type="button"
+            onClick={() => setReportTarget({ type: "post", id: post.id })}
+            className="px-4 py-2 text-gray-500 rounded-md hover:text-brand-600 hover:bg-gray-50"
+          >
+            Report
+          </button>
         </div>
 
         {showDeleteConfirm && (
-          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
-            <p className="text-red-800 mb-2">
+          <div className="mt-4 p-4 bg-brand-50 border border-brand-200 rounded-md">
+            <p className="text-brand-800 mb-2">
               Enter secret key to delete this post:
             </p>
             <div className="flex gap-2">
@@ -254,30 +477,65 @@ const PostPage: React.FC = () => {
                 type="password"
                 value={secretKey}
                 onChange={(e) => setSecretKey(e.target.value)}
-                className="flex-1 px-3 py-1 border border-red-300 rounded-md"
+                className="flex-1 px-3 py-1 border border-brand-300 rounded-md"
                 placeholder="Secret key"
               />
               <button
                 onClick={handleDelete}
-                className="px-4 py-1 bg-red-600 text-white rounded-md hover:bg-red-700"
+                className="px-4 py-1 bg-brand-600 text-white rounded-md hover:bg-brand-700"
               >
                 Confirm Delete
               </button>
               <button
-                onClick={() => setShowDeleteConfirm(false)}
+                onClick={() => {
+                  setShowDeleteConfirm(false);
+                  setDeleteError("");
+                }}
                 className="px-4 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
               >
                 Cancel
               </button>
             </div>
+            {deleteError && (
+              <p role="alert" className="mt-2 text-sm text-red-600">
+                {deleteError}
+              </p>
+            )}
           </div>
         )}
       </div>
 
+      {/* Referenced By */}
+      {referencedBy.length > 0 && (
+        <div className="bg-surface rounded-lg shadow-sm border p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">
+            Referenced by ({referencedBy.length})
+          </h2>
+          <div className="space-y-3">
+            {referencedBy.map((reference) => (
+              <Link
+                key={reference.id}
+                to={`/post/${reference.id}`}
+                className="block p-3 border border-gray-200 rounded-md hover:border-brand-400 transition-colors"
+              >
+                <div className="font-medium text-gray-900">
+                  {reference.title}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {formatTimeAgo(reference.created_at)} by{" "}
+                  {reference.user_id.substring(0, 8)} • {reference.upvotes}{" "}
+                  upvotes
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Comments Section */}
-      <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="bg-surface rounded-lg shadow-sm border p-6">
         <h2 className="text-lg font-semibold mb-4">
-          Comments ({comments.length})
+          Comments ({comments.filter((comment) => !comment.deleted_at).length})
         </h2>
 
         {/* Add Comment Form */}
@@ -286,42 +544,91 @@ const PostPage: React.FC = () => {
             value={newComment}
             onChange={(e) => setNewComment(e.target.value)}
             rows={3}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
             placeholder="Add a comment..."
           />
-          <button
-            type="submit"
-            className="mt-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
-          >
-            Post Comment
-          </button>
+          {commentError && (
+            <p role="alert" className="mt-1 text-sm text-red-600">
+              {commentError}
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-2 mt-2">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-brand-600 text-white rounded-md hover:bg-brand-700"
+            >
+              Post Comment
+            </button>
+            <input
+              type="password"
+              value={newCommentKey}
+              onChange={(e) => setNewCommentKey(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder="Secret key (optional, to edit or delete from another browser)"
+            />
+          </div>
         </form>
 
         {/* Comments List */}
-        <div className="space-y-4">
-          {comments.length === 0 ? (
+        {commentId && (
+          <Link
+            to={`/post/${post.id}`}
+            className="inline-block mb-4 text-sm font-medium text-brand-600 hover:underline"
+          >
+            ← Back to all comments
+          </Link>
+        )}
+        <div className="divide-y divide-gray-100">
+          {commentId ? (
+            focusedNode ? (
+              <CommentThread
+                node={focusedNode}
+                postId={post.id}
+                currentUserId={identity.id}
+                onReply={handleReply}
+                onEdit={handleEditComment}
+                onDelete={handleDeleteComment}
+                commentVotes={votes.comments}
+                onVote={handleCommentVote}
+                onReport={(commentId) =>
+                  setReportTarget({ type: "comment", id: commentId })
+                }
+              />
+            ) : (
+              <p className="text-gray-500">This comment could not be found.</p>
+            )
+          ) : commentTree.length === 0 ? (
             <p className="text-gray-500">
               No comments yet. Be the first to comment!
             </p>
           ) : (
-            comments.map((comment) => (
-              <div
-                key={comment.id}
-                className="border-b border-gray-100 pb-4 last:border-b-0"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <p className="text-gray-700">{comment.content}</p>
-                    <div className="text-sm text-gray-500 mt-1">
-                      {comment.user_id} • {formatTimeAgo(comment.created_at)}
-                    </div>
-                  </div>
-                </div>
+            commentTree.map((node) => (
+              <div key={node.comment.id} className="py-4 first:pt-0 last:pb-0">
+                <CommentThread
+                  node={node}
+                  postId={post.id}
+                  currentUserId={identity.id}
+                  onReply={handleReply}
+                  onEdit={handleEditComment}
+                  onDelete={handleDeleteComment}
+                  commentVotes={votes.comments}
+                  onVote={handleCommentVote}
+                  onReport={(commentId) =>
+                    setReportTarget({ type: "comment", id: commentId })
+                  }
+                />
               </div>
             ))
           )}
         </div>
       </div>
+
+      {reportTarget && (
+        <ReportDialog
+          target={reportTarget}
+          onClose={() => setReportTarget(null)}
+        />
+      )}
     </div>
   );
 };
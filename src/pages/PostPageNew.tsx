@@ -1,485 +0,0 @@
-import React, { useState, useEffect } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
-import supabase from "../utils/supabase";
-
-interface Post {
-  id: string;
-  title: string;
-  content: string;
-  image_url: string;
-  upvotes: number;
-  created_at: string;
-  secret_key: string;
-  user_id: string;
-  flags: string[];
-}
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  secret_key: string;
-}
-
-export const PostPage: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
-  const navigate = useNavigate();
-  const [post, setPost] = useState<Post | null>(null);
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [newComment, setNewComment] = useState("");
-  const [secretKey, setSecretKey] = useState("");
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [upvoting, setUpvoting] = useState(false);
-
-  useEffect(() => {
-    if (id) {
-      fetchPost();
-      fetchComments();
-    }
-  }, [id]);
-
-  const fetchPost = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("posts")
-        .select("*")
-        .eq("id", id)
-        .single();
-
-      if (error) throw error;
-      setPost(data);
-    } catch (error) {
-      console.error("Error fetching post:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchComments = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("comments")
-        .select("*")
-        .eq("post_id", id)
-        .order("created_at", { ascending: true });
-
-      if (error) throw error;
-      setComments(data || []);
-    } catch (error) {
-      console.error("Error fetching comments:", error);
-    }
-  };
-
-  const handleUpvote = async () => {
-    if (!post || upvoting) return;
-
-    setUpvoting(true);
-    try {
-      const newUpvotes = post.upvotes + 1;
-      const { error } = await supabase
-        .from("posts")
-        .update({ upvotes: newUpvotes })
-        .eq("id", post.id);
-
-      if (error) throw error;
-      setPost({ ...post, upvotes: newUpvotes });
-    } catch (error) {
-      console.error("Error upvoting:", error);
-    } finally {
-      setUpvoting(false);
-    }
-  };
-
-  const handleAddComment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newComment.trim()) return;
-
-    try {
-      const userId = Math.random().toString(36).substring(2, 15);
-
-      const { data, error } = await supabase
-        .from("comments")
-        .insert([
-          {
-            post_id: id,
-            content: newComment,
-            user_id: userId,
-            secret_key: "",
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) throw error;
-      setComments([...comments, data]);
-      setNewComment("");
-    } catch (error) {
-      console.error("Error adding comment:", error);
-    }
-  };
-
-  const handleDelete = async () => {
-    if (!post || secretKey !== post.secret_key) {
-      alert("Invalid secret key");
-      return;
-    }
-
-    try {
-      const { error } = await supabase.from("posts").delete().eq("id", post.id);
-
-      if (error) throw error;
-      navigate("/");
-    } catch (error) {
-      console.error("Error deleting post:", error);
-    }
-  };
-
-  const formatTimeAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffInHours = Math.floor(
-      (now.getTime() - date.getTime()) / (1000 * 60 * 60)
-    );
-
-    if (diffInHours < 1) return "Just now";
-    if (diffInHours < 24) return `${diffInHours}h ago`;
-    return `${Math.floor(diffInHours / 24)}d ago`;
-  };
-
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center min-h-screen">
-        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-green-600"></div>
-        <span className="ml-4 text-lg text-gray-600">Loading post...</span>
-      </div>
-    );
-  }
-
-  if (!post) {
-    return (
-      <div className="max-w-4xl mx-auto px-4 py-6">
-        <div className="text-center py-12">
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">
-            Post not found
-          </h1>
-          <p className="text-gray-600 mb-4">
-            This football post might have been deleted or moved.
-          </p>
-          <Link
-            to="/"
-            className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
-          >
-            Back to Football Hub
-          </Link>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="max-w-4xl mx-auto px-4 py-6">
-      {/* Navigation */}
-      <div className="mb-6">
-        <Link
-          to="/"
-          className="flex items-center text-green-600 hover:text-green-700 transition-colors"
-        >
-          <svg
-            className="w-5 h-5 mr-2"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M15 19l-7-7 7-7"
-            />
-          </svg>
-          Back to Football Hub
-        </Link>
-      </div>
-
-      {/* Post Content */}
-      <div className="bg-white rounded-lg shadow-sm border p-8 mb-6">
-        <div className="flex items-start justify-between mb-6">
-          <div className="flex-1">
-            {/* Post Flags */}
-            {post.flags && post.flags.length > 0 && (
-              <div className="flex items-center gap-2 mb-4">
-                {post.flags.map((flag) => (
-                  <span
-                    key={flag}
-                    className="inline-block px-3 py-1 bg-green-100 text-green-800 text-sm rounded-full font-medium"
-                  >
-                    {flag === "Question"}
-                    {flag === "Opinion"}
-                    {flag === "News"}
-                    {flag === "Discussion"}
-                    {flag}
-                  </span>
-                ))}
-              </div>
-            )}
-
-            <h1 className="text-3xl font-bold text-gray-900 mb-4">
-              {post.title}
-            </h1>
-
-            <div className="flex items-center gap-6 text-sm text-gray-500 mb-6">
-              <span className="flex items-center gap-1">
-                <svg
-                  className="w-4 h-4"
-                  fill="currentColor"
-                  viewBox="0 0 20 20"
-                >
-                  <path
-                    fillRule="evenodd"
-                    d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z"
-                    clipRule="evenodd"
-                  />
-                </svg>
-                Posted {formatTimeAgo(post.created_at)}
-              </span>
-              <span className="flex items-center gap-1">
-                <svg
-                  className="w-4 h-4"
-                  fill="currentColor"
-                  viewBox="0 0 20 20"
-                >
-                  <path
-                    fillRule="evenodd"
-                    d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z"
-                    clipRule="evenodd"
-                  />
-                </svg>
-                By {post.user_id.substring(0, 8)}
-              </span>
-            </div>
-          </div>
-
-          {/* Upvote Button */}
-          <div className="flex flex-col items-center">
-            <button
-              onClick={handleUpvote}
-              disabled={upvoting}
-              className={`flex flex-col items-center p-3 rounded-lg transition-colors ${
-                upvoting
-                  ? "bg-gray-100 cursor-not-allowed"
-                  : "bg-green-50 hover:bg-green-100 text-green-700"
-              }`}
-            >
-              <svg
-                className="w-6 h-6 mb-1"
-                fill="currentColor"
-                viewBox="0 0 20 20"
-              >
-                <path
-                  fillRule="evenodd"
-                  d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z"
-                  clipRule="evenodd"
-                />
-              </svg>
-              <span className="font-bold text-lg">{post.upvotes}</span>
-              <span className="text-xs">upvotes</span>
-            </button>
-          </div>
-        </div>
-
-        {/* Post Content */}
-        {post.content && (
-          <div className="mb-6">
-            <div className="prose max-w-none">
-              <p className="text-gray-700 text-lg leading-relaxed whitespace-pre-wrap">
-                {post.content}
-              </p>
-            </div>
-          </div>
-        )}
-
-        {/* Post Image */}
-        {post.image_url && (
-          <div className="mb-6">
-            <img
-              src={post.image_url}
-              alt="Post image"
-              className="w-full max-w-2xl h-auto rounded-lg shadow-md"
-              onError={(e) => {
-                e.currentTarget.style.display = "none";
-              }}
-            />
-          </div>
-        )}
-
-        {/* Edit/Delete Controls */}
-        <div className="flex gap-3 pt-6 border-t border-gray-200">
-          <Link
-            to={`/edit/${post.id}`}
-            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <svg
-              className="w-4 h-4 mr-2"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-              />
-            </svg>
-            Edit Post
-          </Link>
-          <button
-            onClick={() => setShowDeleteConfirm(true)}
-            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-          >
-            <svg
-              className="w-4 h-4 mr-2"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-              />
-            </svg>
-            Delete Post
-          </button>
-        </div>
-
-        {/* Delete Confirmation */}
-        {showDeleteConfirm && (
-          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
-            <h3 className="text-red-800 font-medium mb-2">Delete Post</h3>
-            <p className="text-red-700 mb-3">
-              Enter your secret key to permanently delete this post:
-            </p>
-            <div className="flex gap-3">
-              <input
-                type="password"
-                value={secretKey}
-                onChange={(e) => setSecretKey(e.target.value)}
-                className="flex-1 px-3 py-2 border border-red-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
-                placeholder="Secret key"
-              />
-              <button
-                onClick={handleDelete}
-                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
-              >
-                Confirm Delete
-              </button>
-              <button
-                onClick={() => setShowDeleteConfirm(false)}
-                className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        )}
-      </div>
-
-      {/* Comments Section */}
-      <div className="bg-white rounded-lg shadow-sm border p-6">
-        <h2 className="text-2xl font-bold mb-6 flex items-center">
-          <svg
-            className="w-6 h-6 mr-2 text-green-600"
-            fill="currentColor"
-            viewBox="0 0 20 20"
-          >
-            <path
-              fillRule="evenodd"
-              d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z"
-              clipRule="evenodd"
-            />
-          </svg>
-          Comments ({comments.length})
-        </h2>
-
-        {/* Add Comment Form */}
-        <form onSubmit={handleAddComment} className="mb-8">
-          <div className="mb-4">
-            <textarea
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              rows={4}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              placeholder="Share your thoughts about this football post..."
-            />
-          </div>
-          <button
-            type="submit"
-            className="bg-green-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-green-700 transition-colors"
-          >
-            Post Comment
-          </button>
-        </form>
-
-        {/* Comments List */}
-        <div className="space-y-6">
-          {comments.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-gray-500">
-                No comments yet. Be the first to share your thoughts!
-              </p>
-            </div>
-          ) : (
-            comments.map((comment) => (
-              <div
-                key={comment.id}
-                className="border-b border-gray-100 pb-6 last:border-b-0 last:pb-0"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <p className="text-gray-700 leading-relaxed mb-3">
-                      {comment.content}
-                    </p>
-                    <div className="flex items-center gap-4 text-sm text-gray-500">
-                      <span className="flex items-center gap-1">
-                        <svg
-                          className="w-4 h-4"
-                          fill="currentColor"
-                          viewBox="0 0 20 20"
-                        >
-                          <path
-                            fillRule="evenodd"
-                            d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z"
-                            clipRule="evenodd"
-                          />
-                        </svg>
-                        {comment.user_id.substring(0, 8)}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <svg
-                          className="w-4 h-4"
-                          fill="currentColor"
-                          viewBox="0 0 20 20"
-                        >
-                          <path
-                            fillRule="evenodd"
-                            d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z"
-                            clipRule="evenodd"
-                          />
-                        </svg>
-                        {formatTimeAgo(comment.created_at)}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))
-          )}
-        </div>
-      </div>
-    </div>
-  );
-};
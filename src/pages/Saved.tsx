@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  listPosts,
+  type FlagMatch,
+  type Post,
+  type PostCursor,
+  type PostSort,
+} from "../api";
+import { FeedControls } from "../components/FeedControls";
+import { FeedPost } from "../components/FeedPost";
+import { usePreferences } from "../context/PreferencesContext";
+import { useBookmarks } from "../hooks/useBookmarks";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { FEED_CLASSES } from "../utils/preferences";
+
+const Saved: React.FC = () => {
+  const { feedLayout } = usePreferences().preferences;
+  const { bookmarks, loaded, isSaved, newCommentCount, toggleBookmark } =
+    useBookmarks();
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [nextCursor, setNextCursor] = useState<PostCursor | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [sortBy, setSortBy] = useState<PostSort>("created_at");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [filterFlags, setFilterFlags] = useState<string[]>([]);
+  const [flagMatch, setFlagMatch] = useState<FlagMatch>("any");
+  const search = useDebouncedValue(searchTerm);
+  // Incremented whenever the query changes so stale pages are discarded
+  const queryVersion = useRef(0);
+
+  // Unsaving a post leaves it listed, so it can be saved again straight
+  // away; the list only follows bookmarks added elsewhere on the next load.
+  const [ids, setIds] = useState<string[] | null>(null);
+  useEffect(() => {
+    if (loaded && ids === null) {
+      setIds(bookmarks.map((bookmark) => bookmark.post_id));
+    }
+  }, [loaded, ids, bookmarks]);
+
+  const fetchPosts = useCallback(
+    async (cursor: PostCursor | null = null) => {
+      if (!ids) return;
+      const version = cursor ? queryVersion.current : ++queryVersion.current;
+      if (cursor) setLoadingMore(true);
+      else setLoading(true);
+      try {
+        const page =
+          ids.length > 0
+            ? await listPosts({
+                sortBy,
+                search,
+                flags: filterFlags,
+                flagMatch,
+                ids,
+                cursor,
+              })
+            : { posts: [], nextCursor: null };
+        if (version !== queryVersion.current) return;
+        setPosts((prev) => (cursor ? [...prev, ...page.posts] : page.posts));
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        console.error("Error fetching saved posts:", error);
+      } finally {
+        if (cursor) setLoadingMore(false);
+        else if (version === queryVersion.current) setLoading(false);
+      }
+    },
+    [ids, sortBy, search, filterFlags, flagMatch]
+  );
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-brand-800 mb-2">Saved posts</h1>
+        <p className="text-gray-600">
+          Threads you bookmarked, with a count of comments added since your last
+          visit
+        </p>
+      </div>
+
+      <FeedControls
+        searchTerm={searchTerm}
+        onSearchTermChange={setSearchTerm}
+        sortBy={sortBy}
+        onSortByChange={setSortBy}
+        filterFlags={filterFlags}
+        onFilterFlagsChange={setFilterFlags}
+        flagMatch={flagMatch}
+        onFlagMatchChange={setFlagMatch}
+      />
+
+      <div
+        className={
+          loading || posts.length === 0 ? "space-y-6" : FEED_CLASSES[feedLayout]
+        }
+      >
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-brand-600"></div>
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+            <div className="text-6xl mb-4">🔖</div>
+            <p className="text-gray-500 text-lg mb-4">
+              {ids?.length
+                ? "No saved posts match these filters."
+                : "Nothing saved yet. Bookmark a post to find it here later."}
+            </p>
+            <Link
+              to="/"
+              className="inline-block bg-brand-600 text-white px-6 py-3 rounded-md hover:bg-brand-700 transition-colors"
+            >
+              Browse the feed
+            </Link>
+          </div>
+        ) : (
+          posts.map((post) => (
+            <FeedPost
+              key={post.id}
+              post={post}
+              layout={feedLayout}
+              saved={isSaved(post.id)}
+              onToggleSaved={() => toggleBookmark(post)}
+              newComments={newCommentCount(post)}
+            />
+          ))
+        )}
+      </div>
+
+      {!loading && nextCursor && (
+        <div className="flex justify-center mt-6">
+          <button
+            onClick={() => fetchPosts(nextCursor)}
+            disabled={loadingMore}
+            className="flex items-center bg-brand-600 text-white px-6 py-3 rounded-md hover:bg-brand-700 disabled:opacity-50 transition-colors"
+          >
+            {loadingMore ? (
+              <>
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                Loading...
+              </>
+            ) : (
+              "Load more"
+            )}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Saved;
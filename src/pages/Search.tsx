@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { searchPosts, type SearchResult } from "../api";
+import { Highlight } from "../components/Highlight";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { formatTimeAgo } from "../utils/format";
+import { makeSnippet, parseSearchQuery } from "../utils/search";
+
+const PAGE_SIZE = 20;
+
+const Search: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const [input, setInput] = useState(query);
+  const debouncedInput = useDebouncedValue(input);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const queryVersion = useRef(0);
+
+  const { terms } = parseSearchQuery(query);
+
+  // Keep the URL in sync with what has been typed, without adding a history
+  // entry for every keystroke
+  useEffect(() => {
+    if (debouncedInput.trim() === query.trim()) return;
+    setSearchParams(debouncedInput.trim() ? { q: debouncedInput } : {}, {
+      replace: true,
+    });
+  }, [debouncedInput, query, setSearchParams]);
+
+  const fetchResults = useCallback(async () => {
+    const version = ++queryVersion.current;
+    if (!query.trim()) {
+      setResults([]);
+      setHasMore(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await searchPosts(query, { limit: PAGE_SIZE });
+      if (version !== queryVersion.current) return;
+      setResults(data);
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error searching posts:", error);
+    } finally {
+      if (version === queryVersion.current) setLoading(false);
+    }
+  }, [query]);
+
+  const fetchMoreResults = async () => {
+    const version = queryVersion.current;
+    setLoadingMore(true);
+    try {
+      const data = await searchPosts(query, {
+        limit: PAGE_SIZE,
+        offset: results.length,
+      });
+      if (version !== queryVersion.current) return;
+      setResults((prev) => [...prev, ...data]);
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error searching posts:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6">
+      <div className="text-center mb-8">
+        <h1 className="text-4xl font-bold text-brand-600 mb-2">Search</h1>
+        <p className="text-gray-600">
+          Search titles, posts and comments. Use "quotes" for phrases and -word
+          to exclude.
+        </p>
+      </div>
+
+      <div className="bg-brand-600 rounded-lg shadow-sm border border-brand-500 p-6 mb-6">
+        <input
+          type="search"
+          autoFocus
+          placeholder='e.g. "left back" january -loan'
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-brand-600"></div>
+        </div>
+      ) : !query.trim() ? (
+        <p className="text-center text-gray-500 py-12">
+          Start typing to search the hub.
+        </p>
+      ) : results.length === 0 ? (
+        <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+          <p className="text-gray-500 text-lg">No posts match "{query}".</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {results.map((result) => (
+            <Link
+              key={result.id}
+              to={`/post/${result.id}`}
+              className="block bg-surface rounded-lg shadow-sm border hover:shadow-md transition-shadow p-6"
+            >
+              <h2 className="text-xl font-bold text-gray-900 hover:text-brand-600 mb-2 transition-colors">
+                <Highlight text={result.title} terms={terms} />
+              </h2>
+              {result.content && (
+                <p className="text-gray-700 mb-3 leading-relaxed">
+                  <Highlight
+                    text={makeSnippet(result.content, terms)}
+                    terms={terms}
+                  />
+                </p>
+              )}
+              {result.matched_comment && (
+                <div className="mb-3 pl-3 border-l-4 border-brand-200 text-sm text-gray-600">
+                  <span className="font-medium">Comment: </span>
+                  <Highlight
+                    text={makeSnippet(result.matched_comment, terms)}
+                    terms={terms}
+                  />
+                </div>
+              )}
+              <div className="flex items-center gap-6 text-sm text-gray-500">
+                <span>{formatTimeAgo(result.created_at)}</span>
+                <span className="text-brand-600">{result.upvotes} upvotes</span>
+                <span>{result.comment_count} comments</span>
+                <span>By {result.user_id.substring(0, 8)}</span>
+              </div>
+            </Link>
+          ))}
+
+          {hasMore && (
+            <div className="flex justify-center mt-6">
+              <button
+                onClick={fetchMoreResults}
+                disabled={loadingMore}
+                className="bg-brand-600 text-white px-6 py-3 rounded-md hover:bg-brand-700 disabled:opacity-50 transition-colors"
+              >
+                {loadingMore ? "Loading..." : "Load more"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Search;
@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { useIdentity } from "../context/IdentityContext";
+
+const Settings: React.FC = () => {
+  const { identity, exportCode, importIdentity } = useIdentity();
+  const [importCode, setImportCode] = useState("");
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportCode);
+      setMessage({ type: "success", text: "Identity code copied" });
+    } catch (error) {
+      console.error("Error copying identity code:", error);
+      setMessage({ type: "error", text: "Could not copy to the clipboard" });
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([exportCode], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `muhub-identity-${identity.id.substring(0, 8)}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importCode.trim()) return;
+
+    if (
+      !window.confirm(
+        "Replace the identity in this browser? Posts made with the current identity will no longer be linked to you here unless you export it first."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      importIdentity(importCode);
+      setImportCode("");
+      setMessage({ type: "success", text: "Identity imported" });
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Import failed",
+      });
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportCode((await file.text()).trim());
+    e.target.value = "";
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-6">
+      <div className="bg-surface rounded-lg shadow-sm border p-6">
+        <div className="text-center mb-6">
+          <h1 className="text-3xl font-bold text-brand-800 mb-2">Settings</h1>
+          <p className="text-gray-600">
+            Manage the identity attached to your posts, comments and votes
+          </p>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-6 p-3 rounded-lg text-sm ${
+              message.type === "success"
+                ? "bg-green-50 border border-green-200 text-green-800"
+                : "bg-red-50 border border-red-200 text-red-800"
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">
+              Your Identity
+            </h2>
+            <div className="p-4 bg-gray-50 border rounded-lg">
+              <div className="text-sm text-gray-500">User ID</div>
+              <div className="font-mono text-gray-900 break-all">
+                {identity.id}
+              </div>
+              <div className="text-sm text-gray-500 mt-2">
+                Shown on your posts as{" "}
+                <span className="font-medium">
+                  {identity.id.substring(0, 8)}
+                </span>{" "}
+                • Created {new Date(identity.created_at).toLocaleDateString()}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Export</h2>
+            <p className="text-sm text-gray-600 mb-2">
+              Keep this code private. Anyone who has it can post as you and edit
+              or delete your comments.
+            </p>
+            <textarea
+              readOnly
+              value={exportCode}
+              rows={3}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm"
+              onFocus={(e) => e.currentTarget.select()}
+            />
+            <div className="flex gap-2 mt-2">
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="px-4 py-2 bg-brand-600 text-white rounded-md hover:bg-brand-700"
+              >
+                Copy Code
+              </button>
+              <button
+                type="button"
+                onClick={handleDownload}
+                className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Download
+              </button>
+            </div>
+          </div>
+
+          <form onSubmit={handleImport}>
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Import</h2>
+            <p className="text-sm text-gray-600 mb-2">
+              Paste a code exported from another browser to continue as that
+              identity here.
+            </p>
+            <textarea
+              value={importCode}
+              onChange={(e) => setImportCode(e.target.value)}
+              rows={3}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder="Paste identity code"
+            />
+            <div className="flex items-center gap-2 mt-2">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-brand-600 text-white rounded-md hover:bg-brand-700"
+              >
+                Import Identity
+              </button>
+              <label className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer">
+                Load File
+                <input
+                  type="file"
+                  accept=".txt,text/plain"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  TRASH_RETENTION_DAYS,
+  listDeletedPosts,
+  restorePost,
+  type DeletedPost,
+} from "../api";
+import { useIdentity } from "../context/IdentityContext";
+import { useToast } from "../context/ToastContext";
+import { formatTimeAgo } from "../utils/format";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (post: DeletedPost) =>
+  Math.max(
+    0,
+    Math.ceil(
+      (new Date(post.deleted_at).getTime() +
+        TRASH_RETENTION_DAYS * DAY_MS -
+        Date.now()) /
+        DAY_MS
+    )
+  );
+
+const Trash: React.FC = () => {
+  const { identity } = useIdentity();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const [posts, setPosts] = useState<DeletedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchPosts = useCallback(async () => {
+    try {
+      setPosts(await listDeletedPosts(identity.id, identity.secret));
+      setError("");
+    } catch (error) {
+      console.error("Error fetching deleted posts:", error);
+      setError("Could not load your trash. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [identity]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  const handleRestore = async (post: DeletedPost) => {
+    setRestoringId(post.id);
+    try {
+      await restorePost(post.id, identity.secret);
+      setPosts((prev) => prev.filter((candidate) => candidate.id !== post.id));
+      showToast({
+        message: "Post restored",
+        action: {
+          label: "View",
+          onClick: () => navigate(`/post/${post.id}`),
+        },
+      });
+    } catch (error) {
+      console.error("Error restoring post:", error);
+      setError("Could not restore the post. Please try again.");
+      fetchPosts();
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-6">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold text-brand-800 mb-2">Trash</h1>
+        <p className="text-gray-600">
+          Posts you deleted, kept for {TRASH_RETENTION_DAYS} days before they
+          are removed for good
+        </p>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-brand-600"></div>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="text-center py-12 bg-surface rounded-lg shadow-sm border">
+          <div className="text-6xl mb-4">🗑️</div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Trash is empty
+          </h2>
+          <p className="text-gray-600 mb-4">
+            Posts you delete from this identity will show up here.
+          </p>
+          <Link
+            to="/"
+            className="bg-brand-600 text-white px-6 py-3 rounded-lg hover:bg-brand-700"
+          >
+            Back to the feed
+          </Link>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {posts.map((post) => (
+            <li
+              key={post.id}
+              className="bg-surface rounded-lg shadow-sm border p-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-brand-600 mb-1">
+                    Deleted {formatTimeAgo(post.deleted_at).toLowerCase()} ·{" "}
+                    {daysLeft(post) === 1
+                      ? "1 day left"
+                      : `${daysLeft(post)} days left`}
+                  </p>
+                  <h2 className="text-lg font-semibold text-gray-900 truncate">
+                    {post.title}
+                  </h2>
+                  {post.content.trim() && (
+                    <p className="text-sm text-gray-600 line-clamp-2">
+                      {post.content}
+                    </p>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRestore(post)}
+                  disabled={restoringId === post.id}
+                  className="shrink-0 bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-brand-700 disabled:opacity-50 transition-colors"
+                >
+                  Restore
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,280 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  getUserProfile,
+  listPosts,
+  listUserComments,
+  type ActivityWeek,
+  type Post,
+  type PostCursor,
+  type UserComment,
+  type UserProfile as Profile,
+} from "../api";
+import { FeedPost } from "../components/FeedPost";
+import { useIdentity } from "../context/IdentityContext";
+import { usePreferences } from "../context/PreferencesContext";
+import { useBookmarks } from "../hooks/useBookmarks";
+import { formatTimeAgo } from "../utils/format";
+import { FEED_CLASSES } from "../utils/preferences";
+
+type ProfileTab = "posts" | "comments";
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({
+  label,
+  value,
+}) => (
+  <div className="bg-surface rounded-lg shadow-sm border p-4 text-center">
+    <div className="text-2xl font-bold text-brand-600">{value}</div>
+    <div className="text-sm text-gray-500">{label}</div>
+  </div>
+);
+
+// One stacked bar per week: posts in brand red over comments in gray
+const ActivityChart: React.FC<{ weeks: ActivityWeek[] }> = ({ weeks }) => {
+  const max = Math.max(1, ...weeks.map((week) => week.posts + week.comments));
+  return (
+    <div className="bg-surface rounded-lg shadow-sm border p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-gray-900">Activity</h2>
+        <div className="flex gap-3 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm bg-brand-600"></span> Posts
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm bg-gray-400"></span> Comments
+          </span>
+        </div>
+      </div>
+      <div className="flex items-end gap-1 h-32">
+        {weeks.map((week) => (
+          <div
+            key={week.week}
+            className="flex-1 flex flex-col justify-end h-full"
+            title={`Week of ${new Date(
+              `${week.week}T00:00:00`
+            ).toLocaleDateString()}: ${week.posts} posts, ${
+              week.comments
+            } comments`}
+          >
+            <div
+              className="bg-brand-600 rounded-t-sm"
+              style={{ height: `${(week.posts / max) * 100}%` }}
+            ></div>
+            <div
+              className={`bg-gray-400 ${week.posts ? "" : "rounded-t-sm"}`}
+              style={{ height: `${(week.comments / max) * 100}%` }}
+            ></div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>{weeks.length} weeks ago</span>
+        <span>This week</span>
+      </div>
+    </div>
+  );
+};
+
+const UserProfile: React.FC = () => {
+  const { id = "" } = useParams<{ id: string }>();
+  const { identity } = useIdentity();
+  const { feedLayout } = usePreferences().preferences;
+  const { isSaved, newCommentCount, toggleBookmark } = useBookmarks();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [comments, setComments] = useState<UserComment[]>([]);
+  const [nextCursor, setNextCursor] = useState<PostCursor | null>(null);
+  const [tab, setTab] = useState<ProfileTab>("posts");
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState("");
+  // Incremented whenever the user changes so stale responses are discarded
+  const queryVersion = useRef(0);
+  const isOwn = id === identity.id;
+
+  const fetchProfile = useCallback(async () => {
+    const version = ++queryVersion.current;
+    setLoading(true);
+    try {
+      const [profile, page, comments] = await Promise.all([
+        getUserProfile(id),
+        listPosts({ userId: id }),
+        listUserComments(id),
+      ]);
+      if (version !== queryVersion.current) return;
+      setProfile(profile);
+      setPosts(page.posts);
+      setNextCursor(page.nextCursor);
+      setComments(comments);
+      setError("");
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      if (version === queryVersion.current) {
+        setError("Could not load this profile. Please try again.");
+      }
+    } finally {
+      if (version === queryVersion.current) setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const fetchMorePosts = async () => {
+    if (!nextCursor) return;
+    const version = queryVersion.current;
+    setLoadingMore(true);
+    try {
+      const page = await listPosts({ userId: id, cursor: nextCursor });
+      if (version !== queryVersion.current) return;
+      setPosts((prev) => [...prev, ...page.posts]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error fetching more posts:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-brand-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-12 text-center">
+        <p className="text-red-600 mb-4">{error}</p>
+        <Link
+          to="/"
+          className="bg-brand-600 text-white px-6 py-3 rounded-lg hover:bg-brand-700"
+        >
+          Back to the feed
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold text-brand-800 mb-2 break-all">
+          {id.substring(0, 8)}
+        </h1>
+        <p className="text-gray-600">
+          {profile.joined_at
+            ? `Joined ${formatTimeAgo(profile.joined_at).toLowerCase()}`
+            : "No posts or comments yet"}
+          {isOwn && " · This is you"}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <Stat
+          label="Joined"
+          value={
+            profile.joined_at
+              ? new Date(profile.joined_at).toLocaleDateString()
+              : "—"
+          }
+        />
+        <Stat label="Posts" value={profile.post_count} />
+        <Stat label="Comments" value={profile.comment_count} />
+        <Stat label="Upvotes" value={profile.upvotes} />
+      </div>
+
+      <div className="mb-6">
+        <ActivityChart weeks={profile.activity} />
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {(["posts", "comments"] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setTab(value)}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+              tab === value
+                ? "bg-brand-600 text-white"
+                : "bg-surface border text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {value === "posts"
+              ? `Posts (${profile.post_count})`
+              : `Comments (${profile.comment_count})`}
+          </button>
+        ))}
+      </div>
+
+      {tab === "posts" ? (
+        posts.length === 0 ? (
+          <p className="text-center py-12 text-gray-500">No posts yet.</p>
+        ) : (
+          <>
+            <div className={FEED_CLASSES[feedLayout]}>
+              {posts.map((post) => (
+                <FeedPost
+                  key={post.id}
+                  post={post}
+                  layout={feedLayout}
+                  saved={isSaved(post.id)}
+                  onToggleSaved={() => toggleBookmark(post)}
+                  newComments={newCommentCount(post)}
+                />
+              ))}
+            </div>
+            {nextCursor && (
+              <div className="flex justify-center mt-6">
+                <button
+                  onClick={fetchMorePosts}
+                  disabled={loadingMore}
+                  className="flex items-center bg-brand-600 text-white px-6 py-3 rounded-md hover:bg-brand-700 disabled:opacity-50 transition-colors"
+                >
+                  {loadingMore ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                      Loading...
+                    </>
+                  ) : (
+                    "Load more"
+                  )}
+                </button>
+              </div>
+            )}
+          </>
+        )
+      ) : comments.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">No comments yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id}>
+              <Link
+                to={`/post/${comment.post_id}/comments/${comment.id}`}
+                className="block bg-surface rounded-lg shadow-sm border p-4 hover:shadow-md transition-shadow"
+              >
+                <p className="text-xs text-gray-500 mb-1">
+                  On{" "}
+                  <span className="font-medium text-gray-900">
+                    {comment.post_title}
+                  </span>{" "}
+                  • {formatTimeAgo(comment.created_at)} • {comment.upvotes}{" "}
+                  points
+                </p>
+                <p className="text-gray-700 whitespace-pre-wrap line-clamp-3">
+                  {comment.content}
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UserProfile;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { diffWords } from "../utils/diff";
+
+describe("diffWords", () => {
+  it("returns nothing for two empty revisions", () => {
+    expect(diffWords("", "")).toEqual([]);
+  });
+
+  it("shows a first revision as entirely added", () => {
+    expect(diffWords("", "Mainoo starts")).toEqual([
+      { type: "added", text: "Mainoo starts" },
+    ]);
+  });
+
+  it("shows an emptied revision as entirely removed", () => {
+    expect(diffWords("Mainoo starts", "")).toEqual([
+      { type: "removed", text: "Mainoo starts" },
+    ]);
+  });
+
+  it("keeps unchanged text as a single part", () => {
+    expect(diffWords("Flat four", "Flat four")).toEqual([
+      { type: "same", text: "Flat four" },
+    ]);
+  });
+
+  it("marks the changed words between unchanged ones", () => {
+    const parts = diffWords("We need a left back", "We need a striker");
+
+    expect(parts).toEqual([
+      { type: "same", text: "We need a " },
+      { type: "removed", text: "left back" },
+      { type: "added", text: "striker" },
+    ]);
+    const join = (types: string[]) =>
+      parts
+        .filter((part) => types.includes(part.type))
+        .map((part) => part.text)
+        .join("");
+    expect(join(["same", "removed"])).toBe("We need a left back");
+    expect(join(["same", "added"])).toBe("We need a striker");
+  });
+});
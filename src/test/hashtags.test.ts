@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { extractHashtags, normalizeTag } from "../utils/hashtags";
+
+describe("extractHashtags", () => {
+  it("leaves trailing punctuation out of the tag", () => {
+    expect(
+      extractHashtags("Start him! #Mainoo. What a season, #MUFC! #GGMU?")
+    ).toEqual(["ggmu", "mainoo", "mufc"]);
+  });
+
+  it("lists each tag once, lowercased", () => {
+    expect(extractHashtags("#Academy #academy #ACADEMY")).toEqual(["academy"]);
+  });
+
+  it("ignores URL fragments, entities and headings", () => {
+    expect(
+      extractHashtags("https://example.com/#section &#39; ## Heading")
+    ).toEqual([]);
+  });
+});
+
+describe("normalizeTag", () => {
+  it("strips the # and surrounding whitespace", () => {
+    expect(normalizeTag("  #Transfers ")).toBe("transfers");
+  });
+});
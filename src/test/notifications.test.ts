@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { createLocalBackend } from "../api/backends/local";
+import type { NewComment, NewPost } from "../api";
+
+const newPost = (userId: string, authorKey: string): NewPost => ({
+  title: "Team news for Saturday",
+  content: "",
+  image_url: "",
+  video_url: "",
+  secret_key: "",
+  user_id: userId,
+  author_key: authorKey,
+  repost_id: null,
+  flags: [],
+  fixture_id: null,
+});
+
+const newComment = (
+  postId: string,
+  userId: string,
+  authorKey: string
+): NewComment => ({
+  post_id: postId,
+  content: "Shaw is back in training",
+  user_id: userId,
+  author_key: authorKey,
+});
+
+describe("notification ownership", () => {
+  it("belongs to the secret the user ID was first written with", async () => {
+    const backend = createLocalBackend({ storage: null, seed: false });
+    const post = await backend.createPost(newPost("alice", "alice-secret"));
+    await backend.addComment(newComment(post.id, "bob", "bob-secret"));
+
+    expect(
+      await backend.listNotifications("alice", "alice-secret", 50)
+    ).toHaveLength(1);
+    expect(
+      await backend.countUnreadNotifications("alice", "alice-secret")
+    ).toBe(1);
+  });
+
+  it("refuses writes with the same user ID and another secret", async () => {
+    const backend = createLocalBackend({ storage: null, seed: false });
+    const post = await backend.createPost(newPost("alice", "alice-secret"));
+    await backend.addComment(newComment(post.id, "bob", "bob-secret"));
+
+    await expect(
+      backend.addComment(newComment(post.id, "alice", "mallory-secret"))
+    ).rejects.toMatchObject({
+      code: "validation",
+      message: "This user ID belongs to another identity",
+    });
+    await expect(
+      backend.createPost(newPost("alice", "mallory-secret"))
+    ).rejects.toMatchObject({ code: "validation" });
+
+    expect(
+      await backend.listNotifications("alice", "mallory-secret", 50)
+    ).toEqual([]);
+    expect(
+      await backend.countUnreadNotifications("alice", "mallory-secret")
+    ).toBe(0);
+    await expect(
+      backend.markNotificationsRead("alice", "mallory-secret")
+    ).rejects.toMatchObject({ code: "invalid_secret_key" });
+    await expect(
+      backend.setMutedNotificationTypes("alice", "mallory-secret", ["comment"])
+    ).rejects.toMatchObject({ code: "invalid_secret_key" });
+  });
+});
@@ -0,0 +1,25 @@
+import { render } from "@testing-library/react";
+import { createMemoryRouter, RouterProvider } from "react-router-dom";
+import type { RouteObject } from "react-router-dom";
+import { IdentityProvider } from "../context/IdentityProvider";
+import { NotificationsProvider } from "../context/NotificationsProvider";
+import { PreferencesProvider } from "../context/PreferencesProvider";
+import { ToastProvider } from "../context/ToastProvider";
+
+// Renders routes inside the providers App uses, starting at path. Returns the
+// router too so tests can check where the page navigated.
+export const renderPage = (routes: RouteObject[], path: string) => {
+  const router = createMemoryRouter(routes, { initialEntries: [path] });
+  render(
+    <PreferencesProvider>
+      <IdentityProvider>
+        <NotificationsProvider>
+          <ToastProvider>
+            <RouterProvider router={router} />
+          </ToastProvider>
+        </NotificationsProvider>
+      </IdentityProvider>
+    </PreferencesProvider>
+  );
+  return router;
+};
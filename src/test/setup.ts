@@ -0,0 +1,36 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterEach, beforeEach, vi } from "vitest";
+import type { Backend } from "../api/backend";
+import { createLocalBackend } from "../api/backends/local";
+
+// Every test gets a fresh in-memory backend with the seed data
+const current = vi.hoisted(() => ({ backend: null as Backend | null }));
+
+vi.mock("../api/backend", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../api/backend")>()),
+  getBackend: () => current.backend,
+}));
+
+// Browser APIs jsdom leaves out
+window.matchMedia = (query: string) =>
+  ({
+    matches: false,
+    media: query,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+  }) as unknown as MediaQueryList;
+window.scrollTo = () => {};
+window.IntersectionObserver = class {
+  observe() {}
+  disconnect() {}
+} as unknown as typeof IntersectionObserver;
+
+beforeEach(() => {
+  localStorage.clear();
+  current.backend = createLocalBackend({ storage: null });
+});
+
+afterEach(() => {
+  cleanup();
+});
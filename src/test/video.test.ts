@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseVideoUrl } from "../utils/video";
+
+describe("parseVideoUrl", () => {
+  it("reads the ID from youtu.be links", () => {
+    expect(parseVideoUrl("https://youtu.be/dQw4w9WgXcQ")).toEqual({
+      provider: "youtube",
+      id: "dQw4w9WgXcQ",
+    });
+  });
+
+  it("ignores the start time on YouTube links", () => {
+    expect(parseVideoUrl("https://youtu.be/dQw4w9WgXcQ?t=42")).toEqual({
+      provider: "youtube",
+      id: "dQw4w9WgXcQ",
+    });
+    expect(
+      parseVideoUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=1m30s")
+    ).toEqual({ provider: "youtube", id: "dQw4w9WgXcQ" });
+  });
+
+  it("reads the ID from Vimeo pages and players", () => {
+    expect(parseVideoUrl("https://vimeo.com/76979871")).toEqual({
+      provider: "vimeo",
+      id: "76979871",
+    });
+    expect(parseVideoUrl("https://player.vimeo.com/video/76979871")).toEqual({
+      provider: "vimeo",
+      id: "76979871",
+    });
+  });
+
+  it("rejects links it cannot embed", () => {
+    expect(parseVideoUrl("https://youtu.be/too-short")).toBeNull();
+    expect(parseVideoUrl("https://vimeo.com/channels/staffpicks")).toBeNull();
+    expect(parseVideoUrl("not a url")).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createLocalBackend } from "../api/backends/local";
+
+// Seeded posts and comments use the secret key "seed"
+describe("castVote", () => {
+  it("counts votes on visible posts and comments", async () => {
+    const backend = createLocalBackend({ storage: null });
+
+    expect(
+      await backend.castVote({ type: "post", id: "seed-post-1" }, "voter", 1)
+    ).toBe(25);
+    expect(
+      await backend.castVote(
+        { type: "comment", id: "seed-comment-1" },
+        "voter",
+        1
+      )
+    ).toBeGreaterThan(0);
+  });
+
+  it("refuses votes on a deleted post and its comments", async () => {
+    const backend = createLocalBackend({ storage: null });
+    await backend.deletePost("seed-post-1", "seed");
+
+    await expect(
+      backend.castVote({ type: "post", id: "seed-post-1" }, "voter", 1)
+    ).rejects.toMatchObject({ code: "not_found" });
+    await expect(
+      backend.castVote({ type: "comment", id: "seed-comment-1" }, "voter", 1)
+    ).rejects.toMatchObject({ code: "not_found" });
+  });
+});
@@ -0,0 +1,38 @@
+import type { Comment } from "../api";
+
+export interface CommentNode {
+  comment: Comment;
+  replies: CommentNode[];
+}
+
+// Builds the reply tree from a flat list. Siblings keep the order of the
+// input list, and replies whose parent is missing are shown at the top level.
+export const buildCommentTree = (comments: Comment[]): CommentNode[] => {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach((comment) =>
+    nodes.set(comment.id, { comment, replies: [] })
+  );
+
+  const roots: CommentNode[] = [];
+  comments.forEach((comment) => {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parent_id ? nodes.get(comment.parent_id) : undefined;
+    (parent ? parent.replies : roots).push(node);
+  });
+  return roots;
+};
+
+export const findCommentNode = (
+  nodes: CommentNode[],
+  id: string
+): CommentNode | null => {
+  for (const node of nodes) {
+    if (node.comment.id === id) return node;
+    const found = findCommentNode(node.replies, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const countReplies = (node: CommentNode): number =>
+  node.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
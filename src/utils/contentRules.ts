@@ -0,0 +1,59 @@
+export type WordFilterMode = "mask" | "block";
+
+export interface FilteredWord {
+  // Lowercase; matched whole and case-insensitively
+  word: string;
+  mode: WordFilterMode;
+}
+
+export interface ContentRules {
+  postsPerMinute: number;
+  commentsPerMinute: number;
+  // Per post or comment
+  maxLinks: number;
+  // How long the same text cannot be posted again by the same identity
+  duplicateWindowMinutes: number;
+  words: FilteredWord[];
+}
+
+// Mirrors the defaults in the content_safeguards migration
+export const DEFAULT_CONTENT_RULES: ContentRules = {
+  postsPerMinute: 3,
+  commentsPerMinute: 10,
+  maxLinks: 5,
+  duplicateWindowMinutes: 60,
+  words: [
+    { word: "casino", mode: "block" },
+    { word: "viagra", mode: "block" },
+    { word: "crap", mode: "mask" },
+    { word: "damn", mode: "mask" },
+  ],
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Like \m and \M in Postgres: the word must not touch other letters or digits
+const wordPattern = (word: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escapeRegExp(word)}(?![\\p{L}\\p{N}_])`,
+    "giu"
+  );
+
+export const countLinks = (text: string) =>
+  (text.match(/https?:\/\/|www\./gi) ?? []).length;
+
+// The first blocked word in the text, if any
+export const findBlockedWord = (text: string, words: FilteredWord[]) =>
+  words.find(
+    ({ word, mode }) => mode === "block" && wordPattern(word).test(text)
+  )?.word ?? null;
+
+export const maskWords = (text: string, words: FilteredWord[]) =>
+  words
+    .filter(({ mode }) => mode === "mask")
+    .reduce(
+      (masked, { word }) =>
+        masked.replace(wordPattern(word), "*".repeat(word.length)),
+      text
+    );
@@ -0,0 +1,80 @@
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Past this many table cells the longest common subsequence gets too slow,
+// and the changed middle is shown as replaced wholesale instead.
+const MAX_LCS_CELLS = 1_000_000;
+
+// Words and the whitespace between them, so joining the tokens gives back
+// the original text
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart["type"], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else if (text) parts.push({ type, text });
+};
+
+// Word-level diff of two texts. Joining the "same" and "removed" parts gives
+// `before`; joining the "same" and "added" parts gives `after`.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Unchanged text at either end does not need the quadratic table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, "same", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    pushPart(parts, "removed", midA.join(""));
+    pushPart(parts, "added", midB.join(""));
+  } else {
+    // lengths[i * cols + j] is the LCS length of midA[i..] and midB[j..]
+    const lengths = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] =
+          midA[i] === midB[j]
+            ? lengths[(i + 1) * cols + j + 1] + 1
+            : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, "same", midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        pushPart(parts, "removed", midA[i++]);
+      } else {
+        pushPart(parts, "added", midB[j++]);
+      }
+    }
+    pushPart(parts, "removed", midA.slice(i).join(""));
+    pushPart(parts, "added", midB.slice(j).join(""));
+  }
+
+  pushPart(parts, "same", a.slice(endA).join(""));
+  return parts;
+};
@@ -0,0 +1,97 @@
+// The post form fields a draft keeps. Secret keys are deliberately left out
+// so they never sit in localStorage.
+export interface DraftValues {
+  title: string;
+  content: string;
+  image_url: string;
+  video_url: string;
+  flags: string[];
+  // Only used by drafts of new posts
+  repost_ref: string;
+  // Likewise; "" for none
+  fixture_id: string;
+}
+
+export interface Draft extends DraftValues {
+  id: string;
+  // The post being edited, or null for a draft of a new post
+  post_id: string | null;
+  updated_at: string;
+}
+
+const STORAGE_KEY = "muhub.drafts";
+
+// Each post has at most one edit draft, so its ID is derived from the post.
+export const editDraftId = (postId: string) => `edit:${postId}`;
+
+const isDraft = (value: unknown): value is Draft =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Draft).id === "string" &&
+  typeof (value as Draft).title === "string" &&
+  typeof (value as Draft).content === "string" &&
+  Array.isArray((value as Draft).flags) &&
+  typeof (value as Draft).updated_at === "string";
+
+// Fills in fields added after a draft was saved.
+const withDefaults = (draft: Draft): Draft => ({
+  ...draft,
+  image_url: draft.image_url ?? "",
+  video_url: draft.video_url ?? "",
+  repost_ref: draft.repost_ref ?? "",
+  fixture_id: draft.fixture_id ?? "",
+  post_id: draft.post_id ?? null,
+});
+
+// Returns the saved drafts, most recently changed first.
+export const loadDrafts = (): Draft[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter(isDraft)
+      .map(withDefaults)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  } catch (error) {
+    console.error("Error reading stored drafts:", error);
+    return [];
+  }
+};
+
+export const getDraft = (id: string) =>
+  loadDrafts().find((draft) => draft.id === id) ?? null;
+
+const storeDrafts = (drafts: Draft[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  } catch (error) {
+    // Usually the storage quota, e.g. a large uploaded image kept as a data URL
+    console.error("Error saving drafts:", error);
+  }
+};
+
+export const saveDraft = (draft: Draft) => {
+  storeDrafts([draft, ...loadDrafts().filter(({ id }) => id !== draft.id)]);
+};
+
+export const deleteDraft = (id: string) => {
+  const drafts = loadDrafts();
+  if (drafts.some((draft) => draft.id === id)) {
+    storeDrafts(drafts.filter((draft) => draft.id !== id));
+  }
+};
+
+// Picks the draft fields out of a form's state, which may hold more.
+export const toDraftValues = (values: DraftValues): DraftValues => ({
+  title: values.title,
+  content: values.content,
+  image_url: values.image_url,
+  video_url: values.video_url,
+  // Sorted so toggling a flag off and on again does not count as a change
+  flags: [...values.flags].sort(),
+  repost_ref: values.repost_ref,
+  fixture_id: values.fixture_id,
+});
+
+export const sameDraftValues = (a: DraftValues, b: DraftValues) =>
+  JSON.stringify(toDraftValues(a)) === JSON.stringify(toDraftValues(b));
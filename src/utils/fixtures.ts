@@ -0,0 +1,109 @@
+import type { Fixture, MatchThreadKind } from "../api";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The match thread windows. Keep in step with create_match_threads in the
+// database.
+export const PRE_MATCH_HOURS = 24;
+export const MATCH_LENGTH_MINUTES = 120;
+// Post-match threads are only opened this long after the final whistle
+export const POST_MATCH_DAYS = 2;
+
+export const CLUB_NAME = "Manchester United";
+
+// The author shown on generated match threads
+export const MATCH_THREAD_AUTHOR = "matchbot";
+
+export const MATCH_THREAD_LABELS: Record<MatchThreadKind, string> = {
+  pre: "Pre-match thread",
+  live: "Match thread",
+  post: "Post-match thread",
+};
+
+export type MatchPhase = "upcoming" | "live" | "finished";
+
+export const matchPhase = (kickoff: string, now = Date.now()): MatchPhase => {
+  const start = new Date(kickoff).getTime();
+  if (now < start) return "upcoming";
+  if (now < start + MATCH_LENGTH_MINUTES * 60_000) return "live";
+  return "finished";
+};
+
+// Every thread whose window has opened by now, including windows that passed
+// before anyone looked, or none once the post-match window has closed
+export const dueMatchThreads = (
+  kickoff: string,
+  now = Date.now()
+): MatchThreadKind[] => {
+  const start = new Date(kickoff).getTime();
+  const end = start + MATCH_LENGTH_MINUTES * 60_000;
+  if (now < start - PRE_MATCH_HOURS * HOUR_MS) return [];
+  if (now >= end + POST_MATCH_DAYS * 24 * HOUR_MS) return [];
+  if (now < start) return ["pre"];
+  if (now < end) return ["pre", "live"];
+  return ["pre", "live", "post"];
+};
+
+// Home side first
+export const fixtureTeams = (fixture: Fixture): [string, string] =>
+  fixture.is_home
+    ? [CLUB_NAME, fixture.opponent]
+    : [fixture.opponent, CLUB_NAME];
+
+// e.g. "2-1" with the home side's goals first, or null without a score
+export const formatScore = (fixture: Fixture) => {
+  if (fixture.united_score === null || fixture.opponent_score === null) {
+    return null;
+  }
+  return fixture.is_home
+    ? `${fixture.united_score}-${fixture.opponent_score}`
+    : `${fixture.opponent_score}-${fixture.united_score}`;
+};
+
+// Mirrors the titles create_match_threads gives generated threads
+export const matchThreadTitle = (fixture: Fixture, kind: MatchThreadKind) => {
+  const [home, away] = fixtureTeams(fixture);
+  const score = kind === "post" ? formatScore(fixture) : null;
+  return `${MATCH_THREAD_LABELS[kind]}: ${home} ${score ?? "vs"} ${away} | ${
+    fixture.competition
+  }`;
+};
+
+export const matchThreadContent = (fixture: Fixture, kind: MatchThreadKind) => {
+  switch (kind) {
+    case "pre":
+      return `Build-up to the match at ${fixture.venue}: team news, line-ups and predictions.`;
+    case "live":
+      return `Live discussion while the match is on at ${fixture.venue}.`;
+    case "post":
+      return `Reactions, player ratings and talking points from the match at ${fixture.venue}.`;
+  }
+};
+
+// e.g. "2d 4h", "3h 12m" or "4m 05s"
+export const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+};
+
+// e.g. "Sun 20 Oct, 16:30" in the reader's time zone
+export const formatKickoff = (kickoff: string) =>
+  new Date(kickoff).toLocaleString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// e.g. "Liverpool (H) · Premier League · Sun 20 Oct, 16:30"
+export const describeFixture = (fixture: Fixture) =>
+  `${fixture.opponent} (${fixture.is_home ? "H" : "A"}) · ${
+    fixture.competition
+  } · ${formatKickoff(fixture.kickoff)}`;
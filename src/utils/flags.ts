@@ -0,0 +1,36 @@
+import type { FlagMatch } from "../api";
+
+export interface PostFlag {
+  value: string;
+  emoji: string;
+  label: string;
+  // Used for the feed filter, e.g. "Questions"
+  plural: string;
+}
+
+// The categories a post can be flagged with. Posts store the value.
+export const POST_FLAGS: PostFlag[] = [
+  { value: "Question", emoji: "❓", label: "Question", plural: "Questions" },
+  { value: "Opinion", emoji: "💭", label: "Opinion", plural: "Opinions" },
+  { value: "News", emoji: "📰", label: "News", plural: "News" },
+  {
+    value: "Discussion",
+    emoji: "💬",
+    label: "Discussion",
+    plural: "Discussions",
+  },
+];
+
+export const findFlag = (value: string) =>
+  POST_FLAGS.find((flag) => flag.value === value);
+
+// With no selected flags every post matches.
+export const matchesFlags = (
+  postFlags: string[],
+  selected: string[],
+  match: FlagMatch
+) =>
+  selected.length === 0 ||
+  (match === "any"
+    ? selected.some((flag) => postFlags.includes(flag))
+    : selected.every((flag) => postFlags.includes(flag)));
@@ -0,0 +1,20 @@
+// A # followed by a letter and 1-29 more letters, digits or underscores. The
+// # must not follow a word character, &, / or another #, so URL fragments,
+// HTML entities and Markdown headings are not tags. Mirrors
+// public.extract_hashtags in the database.
+const HASHTAG_PATTERN =
+  /(?:^|[^\p{L}\p{N}_&#/])#(\p{L}[\p{L}\p{N}_]{1,29})(?![\p{L}\p{N}_])/gu;
+
+// Returns the distinct hashtags in the text, lowercased and without the #.
+export const extractHashtags = (text: string): string[] =>
+  [
+    ...new Set(
+      Array.from(text.matchAll(HASHTAG_PATTERN), (match) =>
+        match[1].toLowerCase()
+      )
+    ),
+  ].sort();
+
+// Tags are case-insensitive; strips a leading # typed or linked by the user.
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#/, "").toLowerCase();
@@ -0,0 +1,5 @@
+export const generateId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).substring(2, 15) +
+      Math.random().toString(36).substring(2, 15);
@@ -0,0 +1,77 @@
+import { generateId } from "./id";
+
+export interface Identity {
+  // Public ID shown on posts and comments
+  id: string;
+  // Private key proving authorship; only its hash is stored by the backend
+  secret: string;
+  created_at: string;
+}
+
+const STORAGE_KEY = "muhub.identity";
+
+const isIdentity = (value: unknown): value is Identity =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Identity).id === "string" &&
+  (value as Identity).id.length > 0 &&
+  typeof (value as Identity).created_at === "string";
+
+// Identities saved before secrets were introduced get one on first load.
+const withSecret = (identity: Identity): Identity =>
+  typeof identity.secret === "string" && identity.secret.length > 0
+    ? identity
+    : { ...identity, secret: generateId() };
+
+export const saveIdentity = (identity: Identity) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(identity));
+};
+
+// Returns the identity stored in this browser, creating and persisting a new
+// one the first time the app is launched.
+export const loadIdentity = (): Identity => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (isIdentity(parsed)) {
+        const identity = withSecret(parsed);
+        if (identity !== parsed) saveIdentity(identity);
+        return identity;
+      }
+    }
+  } catch (error) {
+    console.error("Error reading stored identity:", error);
+  }
+
+  const identity: Identity = {
+    id: generateId(),
+    secret: generateId(),
+    created_at: new Date().toISOString(),
+  };
+  saveIdentity(identity);
+  return identity;
+};
+
+// Identities are exported as a base64 code so they can be pasted into
+// another browser without worrying about whitespace or quoting.
+export const exportIdentity = (identity: Identity) =>
+  btoa(JSON.stringify(identity));
+
+export const parseIdentityCode = (code: string): Identity => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(atob(code.trim()));
+  } catch {
+    throw new Error("That identity code could not be read");
+  }
+
+  if (!isIdentity(parsed)) {
+    throw new Error("That identity code is not valid");
+  }
+  return withSecret({
+    id: parsed.id,
+    secret: parsed.secret,
+    created_at: parsed.created_at,
+  });
+};
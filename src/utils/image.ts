@@ -0,0 +1,74 @@
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// Limit on the original file; uploads are much smaller once resized
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Keep in step with file_size_limit on the post-images bucket
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Longest edge of an uploaded image, in pixels
+const MAX_IMAGE_DIMENSION = 1600;
+
+export const validateImageFile = (file: File) => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error("Images must be JPEG, PNG or WebP files");
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error("Images must be 10 MB or smaller");
+  }
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(blob)
+          : reject(new Error("That image could not be processed")),
+      type,
+      0.85
+    )
+  );
+
+// Redraws the image on a canvas, scaled down to MAX_IMAGE_DIMENSION.
+// Re-encoding drops EXIF metadata such as camera details and GPS location;
+// the EXIF orientation is applied to the pixels first so photos stay upright.
+export const prepareImage = async (file: File): Promise<Blob> => {
+  validateImageFile(file);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error("That file could not be read as an image");
+  }
+
+  const scale = Math.min(
+    1,
+    MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height)
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("That image could not be processed");
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // PNGs keep their transparency unless that makes them too big to upload;
+  // everything else becomes a JPEG
+  let blob = await encodeCanvas(
+    canvas,
+    file.type === "image/png" ? "image/png" : "image/jpeg"
+  );
+  if (blob.size > MAX_UPLOAD_BYTES && blob.type !== "image/jpeg") {
+    blob = await encodeCanvas(canvas, "image/jpeg");
+  }
+  if (blob.size > MAX_UPLOAD_BYTES) {
+    throw new Error("That image is too large to upload, even once resized");
+  }
+  return blob;
+};
@@ -0,0 +1,98 @@
+export type ThemeMode = "light" | "dark" | "system";
+export type ColorScheme = "red" | "blue" | "green" | "gold";
+export type FeedLayout = "card" | "compact" | "grid";
+
+export interface Preferences {
+  theme: ThemeMode;
+  scheme: ColorScheme;
+  feedLayout: FeedLayout;
+}
+
+export const THEME_MODES: { value: ThemeMode; label: string }[] = [
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+  { value: "system", label: "System" },
+];
+
+// swatch is only used to preview the scheme in the preferences panel
+export const COLOR_SCHEMES: {
+  value: ColorScheme;
+  label: string;
+  swatch: string;
+}[] = [
+  { value: "red", label: "Home Red", swatch: "#dc2626" },
+  { value: "blue", label: "1968 Blue", swatch: "#2563eb" },
+  { value: "green", label: "Newton Heath Green", swatch: "#16a34a" },
+  { value: "gold", label: "Gold Away", swatch: "#d97706" },
+];
+
+export const FEED_LAYOUTS: {
+  value: FeedLayout;
+  label: string;
+  description: string;
+}[] = [
+  { value: "card", label: "Cards", description: "Title, preview and image" },
+  { value: "compact", label: "Compact", description: "Titles only" },
+  { value: "grid", label: "Grid", description: "Image tiles" },
+];
+
+// Classes for the element that holds a list of FeedPosts in each layout
+export const FEED_CLASSES: Record<FeedLayout, string> = {
+  card: "space-y-6",
+  compact:
+    "bg-surface rounded-lg shadow-sm border border-brand-600 divide-y divide-gray-200 overflow-hidden",
+  grid: "grid grid-cols-2 md:grid-cols-3 gap-4",
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  theme: "system",
+  scheme: "red",
+  feedLayout: "card",
+};
+
+// Read by the inline script in index.html too, so keep the two in sync
+const STORAGE_KEY = "muhub.preferences";
+
+const isOneOf = <T extends string>(
+  options: { value: T }[],
+  value: unknown
+): value is T => options.some((option) => option.value === value);
+
+export const savePreferences = (preferences: Preferences) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+};
+
+// Unknown or missing values fall back to the defaults, so preferences saved
+// by an older version of the app keep working.
+export const loadPreferences = (): Preferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return {
+      theme: isOneOf(THEME_MODES, stored.theme)
+        ? stored.theme
+        : DEFAULT_PREFERENCES.theme,
+      scheme: isOneOf(COLOR_SCHEMES, stored.scheme)
+        ? stored.scheme
+        : DEFAULT_PREFERENCES.scheme,
+      feedLayout: isOneOf(FEED_LAYOUTS, stored.feedLayout)
+        ? stored.feedLayout
+        : DEFAULT_PREFERENCES.feedLayout,
+    };
+  } catch (error) {
+    console.error("Error reading stored preferences:", error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+// Sets the attributes src/index.css keys its color variables on.
+export const applyAppearance = (
+  { theme, scheme }: Preferences,
+  systemPrefersDark: boolean
+) => {
+  const root = document.documentElement;
+  root.classList.toggle(
+    "dark",
+    theme === "dark" || (theme === "system" && systemPrefersDark)
+  );
+  root.dataset.scheme = scheme;
+};
@@ -0,0 +1,28 @@
+import type { ReportReason } from "../api";
+
+export const REPORT_REASONS: {
+  value: ReportReason;
+  label: string;
+  description: string;
+}[] = [
+  { value: "spam", label: "Spam", description: "Adverts, scams or link farms" },
+  {
+    value: "harassment",
+    label: "Abuse or harassment",
+    description: "Insults, threats or hate aimed at someone",
+  },
+  {
+    value: "off_topic",
+    label: "Off topic",
+    description: "Nothing to do with United or football",
+  },
+  {
+    value: "misinformation",
+    label: "Misinformation",
+    description: "Made-up news or fake quotes passed off as real",
+  },
+  { value: "other", label: "Something else", description: "Tell us below" },
+];
+
+export const reportReasonLabel = (reason: ReportReason) =>
+  REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
@@ -0,0 +1,53 @@
+export interface ParsedSearchQuery {
+  // Single words and quoted phrases that must all appear
+  terms: string[];
+  // Words or phrases prefixed with "-" that must not appear
+  excluded: string[];
+}
+
+// Parses the same syntax Postgres' websearch_to_tsquery accepts: plain
+// words, "quoted phrases" and -exclusions.
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const terms: string[] = [];
+  const excluded: string[] = [];
+  const pattern = /(-?)(?:"([^"]*)"?|(\S+))/g;
+
+  for (const match of query.matchAll(pattern)) {
+    const value = (match[2] ?? match[3] ?? "").toLowerCase().trim();
+    if (!value || value === "-" || value === "or") continue;
+    (match[1] ? excluded : terms).push(value);
+  }
+
+  return { terms, excluded };
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches each term at the start of a word and lets it run to the end of
+// that word, so "transfer" also highlights "transfers".
+export const buildHighlightPattern = (terms: string[]) => {
+  if (terms.length === 0) return null;
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => `\\b${escapeRegExp(term).replace(/\s+/g, "\\s+")}\\w*`);
+  return new RegExp(`(${alternatives.join("|")})`, "gi");
+};
+
+// Returns a window of text around the first match, or the start of the text
+// when nothing matches.
+export const makeSnippet = (text: string, terms: string[], radius = 80) => {
+  const pattern = buildHighlightPattern(terms);
+  const index = pattern ? text.search(pattern) : -1;
+  if (index === -1) {
+    return text.length > radius * 2 ? text.slice(0, radius * 2) + "..." : text;
+  }
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + radius);
+  return (
+    (start > 0 ? "..." : "") +
+    text.slice(start, end) +
+    (end < text.length ? "..." : "")
+  );
+};
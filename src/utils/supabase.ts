@@ -1,8 +1,16 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+let client: SupabaseClient | null = null;
 
-const supabase = createClient(supabaseUrl, supabaseKey);
+// The client is created on first use so the app can run against the local
+// backend without Supabase credentials.
+const getSupabase = () => {
+  if (!client) {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    client = createClient(supabaseUrl, supabaseKey);
+  }
+  return client;
+};
 
-export default supabase;
+export default getSupabase;
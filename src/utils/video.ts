@@ -0,0 +1,64 @@
+export type VideoSource =
+  | { provider: "youtube"; id: string }
+  | { provider: "vimeo"; id: string }
+  | { provider: "file"; src: string };
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+// Recognizes the video links posts can embed: YouTube and Vimeo pages and
+// direct .mp4 files. Returns null for anything else.
+export const parseVideoUrl = (value: string): VideoSource | null => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+
+  const host = url.hostname.replace(/^(www\.|m\.)/, "");
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  if (host === "youtu.be") {
+    const id = segments[0] ?? "";
+    return YOUTUBE_ID.test(id) ? { provider: "youtube", id } : null;
+  }
+  if (host === "youtube.com" || host === "youtube-nocookie.com") {
+    const id =
+      segments[0] === "watch"
+        ? (url.searchParams.get("v") ?? "")
+        : ["embed", "shorts", "live"].includes(segments[0])
+          ? (segments[1] ?? "")
+          : "";
+    return YOUTUBE_ID.test(id) ? { provider: "youtube", id } : null;
+  }
+
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const id = segments.find((segment) => /^\d+$/.test(segment));
+    return id ? { provider: "vimeo", id } : null;
+  }
+
+  if (/\.mp4$/i.test(url.pathname)) {
+    return { provider: "file", src: url.toString() };
+  }
+  return null;
+};
+
+// YouTube serves a still for every video at a predictable address
+export const youtubeThumbnailUrl = (id: string) =>
+  `https://i.ytimg.com/vi/${id}/hqdefault.jpg`;
+
+// Vimeo only gives out thumbnails through oEmbed. Resolves to null when the
+// video has none or cannot be looked up.
+export const fetchVimeoThumbnail = async (
+  id: string
+): Promise<string | null> => {
+  const response = await fetch(
+    `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(
+      `https://vimeo.com/${id}`
+    )}&width=640`
+  );
+  if (!response.ok) return null;
+  const { thumbnail_url } = await response.json();
+  return typeof thumbnail_url === "string" ? thumbnail_url : null;
+};
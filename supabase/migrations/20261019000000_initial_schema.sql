@@ -0,0 +1,26 @@
+-- Baseline schema for the tables the app already relies on.
+
+create table if not exists public.posts (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  title text not null,
+  content text not null default '',
+  image_url text not null default '',
+  upvotes integer not null default 0,
+  secret_key text not null default '',
+  user_id text not null,
+  repost_id uuid references public.posts (id) on delete set null,
+  flags text[] not null default '{}'
+);
+
+create table if not exists public.comments (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  content text not null,
+  user_id text not null,
+  secret_key text not null default ''
+);
+
+create index if not exists comments_post_id_idx on public.comments (post_id);
+create index if not exists posts_repost_id_idx on public.posts (repost_id);
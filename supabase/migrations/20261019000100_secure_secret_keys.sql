@@ -0,0 +1,158 @@
+-- Secret keys are stored as bcrypt hashes, are never readable by clients and
+-- are only checked inside security definer functions. Clients can still read
+-- and insert rows, but every update or delete goes through an RPC below.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- Every new or changed key is hashed, even one that already looks like a
+-- bcrypt hash, so clients cannot store a value of their choosing.
+create or replace function public.hash_secret_key()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  if new.secret_key is null then
+    new.secret_key := '';
+  elsif tg_op = 'UPDATE' and new.secret_key = old.secret_key then
+    return new;
+  elsif new.secret_key <> '' then
+    new.secret_key := crypt(new.secret_key, gen_salt('bf'));
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.secret_key_matches(stored text, candidate text)
+returns boolean
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select coalesce(stored, '') <> ''
+    and coalesce(candidate, '') <> ''
+    and stored = crypt(candidate, stored);
+$$;
+
+drop trigger if exists posts_hash_secret_key on public.posts;
+drop trigger if exists comments_hash_secret_key on public.comments;
+
+-- Hash any keys that were stored in plaintext before this migration. This
+-- runs before the triggers exist, which would hash the hashes again.
+update public.posts set secret_key = crypt(secret_key, gen_salt('bf'))
+  where secret_key <> '' and secret_key not like '$2_$%';
+update public.comments set secret_key = crypt(secret_key, gen_salt('bf'))
+  where secret_key <> '' and secret_key not like '$2_$%';
+
+create trigger posts_hash_secret_key
+  before insert or update of secret_key on public.posts
+  for each row execute function public.hash_secret_key();
+
+create trigger comments_hash_secret_key
+  before insert or update of secret_key on public.comments
+  for each row execute function public.hash_secret_key();
+
+-- Row level security: anyone may read and create, nobody may update or delete
+-- directly.
+alter table public.posts enable row level security;
+alter table public.comments enable row level security;
+
+drop policy if exists "posts are readable" on public.posts;
+create policy "posts are readable" on public.posts
+  for select using (true);
+drop policy if exists "posts can be created" on public.posts;
+create policy "posts can be created" on public.posts
+  for insert with check (upvotes = 0);
+
+drop policy if exists "comments are readable" on public.comments;
+create policy "comments are readable" on public.comments
+  for select using (true);
+drop policy if exists "comments can be created" on public.comments;
+create policy "comments can be created" on public.comments
+  for insert with check (true);
+
+-- Column privileges keep the hashes out of every client query. Columns added
+-- by later migrations must be granted here explicitly.
+revoke select, update, delete on public.posts from anon, authenticated;
+revoke select, update, delete on public.comments from anon, authenticated;
+grant select (
+  id, created_at, title, content, image_url, upvotes, user_id, repost_id, flags
+) on public.posts to anon, authenticated;
+grant select (
+  id, created_at, post_id, content, user_id
+) on public.comments to anon, authenticated;
+grant insert on public.posts, public.comments to anon, authenticated;
+
+create or replace function public.update_post(
+  p_post_id uuid,
+  p_secret_key text,
+  p_title text,
+  p_content text,
+  p_image_url text,
+  p_flags text[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if coalesce(trim(p_title), '') = '' then
+    raise exception 'Title is required';
+  end if;
+
+  update posts
+     set title = p_title,
+         content = coalesce(p_content, ''),
+         image_url = coalesce(p_image_url, ''),
+         flags = coalesce(p_flags, '{}')
+   where id = p_post_id
+     and secret_key_matches(secret_key, p_secret_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+-- Deletes the post and its comments in a single transaction.
+create or replace function public.delete_post(
+  p_post_id uuid,
+  p_secret_key text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform 1 from posts
+   where id = p_post_id
+     and secret_key_matches(secret_key, p_secret_key)
+   for update;
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+
+  delete from comments where post_id = p_post_id;
+  delete from posts where id = p_post_id;
+end;
+$$;
+
+create or replace function public.upvote_post(p_post_id uuid)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  update posts set upvotes = upvotes + 1
+   where id = p_post_id
+  returning upvotes;
+$$;
+
+revoke execute on function public.hash_secret_key() from public;
+grant execute on function public.update_post(uuid, text, text, text, text, text[])
+  to anon, authenticated;
+grant execute on function public.delete_post(uuid, text) to anon, authenticated;
+grant execute on function public.upvote_post(uuid) to anon, authenticated;
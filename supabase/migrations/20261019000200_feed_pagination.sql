@@ -0,0 +1,45 @@
+-- Keeps a denormalized comment count on each post so the feed does not have
+-- to download comments, and adds the indexes used by keyset pagination.
+
+alter table public.posts
+  add column if not exists comment_count integer not null default 0;
+
+update public.posts p
+   set comment_count = (
+     select count(*) from public.comments c where c.post_id = p.id
+   );
+
+create or replace function public.sync_comment_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update posts set comment_count = comment_count + 1 where id = new.post_id;
+  elsif tg_op = 'DELETE' then
+    update posts set comment_count = greatest(comment_count - 1, 0)
+     where id = old.post_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists comments_sync_comment_count on public.comments;
+create trigger comments_sync_comment_count
+  after insert or delete on public.comments
+  for each row execute function public.sync_comment_count();
+
+drop policy if exists "posts can be created" on public.posts;
+create policy "posts can be created" on public.posts
+  for insert with check (upvotes = 0 and comment_count = 0);
+
+grant select (comment_count) on public.posts to anon, authenticated;
+
+create index if not exists posts_created_at_id_idx
+  on public.posts (created_at desc, id desc);
+create index if not exists posts_upvotes_id_idx
+  on public.posts (upvotes desc, id desc);
+create index if not exists posts_flags_idx
+  on public.posts using gin (flags);
@@ -0,0 +1,71 @@
+-- Full-text search over post titles, bodies and comments. Queries use
+-- websearch_to_tsquery, so "quoted phrases" and -exclusions work as expected.
+
+alter table public.posts
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) stored;
+
+alter table public.comments
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists posts_search_vector_idx
+  on public.posts using gin (search_vector);
+create index if not exists comments_search_vector_idx
+  on public.comments using gin (search_vector);
+
+create or replace function public.search_posts(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  upvotes integer,
+  created_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  comment_count integer,
+  rank real,
+  matched_comment text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as query
+  )
+  select p.id, p.title, p.content, p.image_url, p.upvotes, p.created_at,
+         p.user_id, p.repost_id, p.flags, p.comment_count,
+         (case when p.search_vector @@ q.query
+               then ts_rank(p.search_vector, q.query) else 0 end
+          + coalesce(c.rank, 0) * 0.5)::real as rank,
+         c.content as matched_comment
+    from posts p
+   cross join q
+    left join lateral (
+      select cm.content, ts_rank(cm.search_vector, q.query) as rank
+        from comments cm
+       where cm.post_id = p.id
+         and cm.search_vector @@ q.query
+       order by rank desc
+       limit 1
+    ) c on true
+   where numnode(q.query) > 0
+     and (p.search_vector @@ q.query or c.content is not null)
+   order by rank desc, p.created_at desc, p.id desc
+   limit least(greatest(p_limit, 1), 50)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_posts(text, integer, integer)
+  to anon, authenticated;
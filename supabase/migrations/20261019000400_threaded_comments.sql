@@ -0,0 +1,31 @@
+-- Replies: a comment may point at a parent comment on the same post.
+
+alter table public.comments
+  add column if not exists parent_id uuid
+  references public.comments (id) on delete cascade;
+
+create index if not exists comments_parent_id_idx
+  on public.comments (parent_id);
+
+create or replace function public.check_comment_parent()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from comments
+     where id = new.parent_id and post_id = new.post_id
+  ) then
+    raise exception 'Parent comment must belong to the same post';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_check_parent on public.comments;
+create trigger comments_check_parent
+  before insert on public.comments
+  for each row execute function public.check_comment_parent();
+
+grant select (parent_id) on public.comments to anon, authenticated;
@@ -0,0 +1,106 @@
+-- Comments can be edited or deleted by whoever holds their secret key or the
+-- author's identity secret (stored hashed as author_key). Deleting blanks the
+-- comment but keeps the row so replies stay attached.
+
+alter table public.comments
+  add column if not exists author_key text not null default '',
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+-- Like hash_secret_key, hashes every new or changed key.
+create or replace function public.hash_author_key()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  if new.author_key is null then
+    new.author_key := '';
+  elsif tg_op = 'UPDATE' and new.author_key = old.author_key then
+    return new;
+  elsif new.author_key <> '' then
+    new.author_key := crypt(new.author_key, gen_salt('bf'));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_hash_author_key on public.comments;
+create trigger comments_hash_author_key
+  before insert or update of author_key on public.comments
+  for each row execute function public.hash_author_key();
+
+drop policy if exists "comments can be created" on public.comments;
+create policy "comments can be created" on public.comments
+  for insert with check (edited_at is null and deleted_at is null);
+
+grant select (edited_at, deleted_at) on public.comments to anon, authenticated;
+
+create or replace function public.comment_key_matches(
+  p_comment public.comments,
+  p_key text
+)
+returns boolean
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select secret_key_matches(p_comment.secret_key, p_key)
+      or secret_key_matches(p_comment.author_key, p_key);
+$$;
+
+create or replace function public.update_comment(
+  p_comment_id uuid,
+  p_key text,
+  p_content text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if coalesce(trim(p_content), '') = '' then
+    raise exception 'Comment cannot be empty';
+  end if;
+
+  update comments c
+     set content = p_content,
+         edited_at = now()
+   where c.id = p_comment_id
+     and c.deleted_at is null
+     and comment_key_matches(c, p_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+create or replace function public.delete_comment(
+  p_comment_id uuid,
+  p_key text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  update comments c
+     set content = '',
+         deleted_at = now()
+   where c.id = p_comment_id
+     and c.deleted_at is null
+     and comment_key_matches(c, p_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+grant execute on function public.update_comment(uuid, text, text)
+  to anon, authenticated;
+grant execute on function public.delete_comment(uuid, text)
+  to anon, authenticated;
@@ -0,0 +1,142 @@
+-- One vote per voter per post or comment. Voters are identified by a hash of
+-- their identity secret, so votes cannot be cast on someone else's behalf.
+-- Scores only change inside cast_vote, which locks the target row first.
+
+alter table public.comments
+  add column if not exists upvotes integer not null default 0;
+
+drop policy if exists "comments can be created" on public.comments;
+create policy "comments can be created" on public.comments
+  for insert with check (
+    edited_at is null and deleted_at is null and upvotes = 0
+  );
+
+grant select (upvotes) on public.comments to anon, authenticated;
+
+create table if not exists public.votes (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  post_id uuid references public.posts (id) on delete cascade,
+  comment_id uuid references public.comments (id) on delete cascade,
+  voter_hash text not null,
+  value smallint not null check (value in (-1, 1)),
+  check (num_nonnulls(post_id, comment_id) = 1)
+);
+
+create unique index if not exists votes_post_voter_idx
+  on public.votes (post_id, voter_hash) where post_id is not null;
+create unique index if not exists votes_comment_voter_idx
+  on public.votes (comment_id, voter_hash) where comment_id is not null;
+
+-- No policies: votes are only reachable through the functions below.
+alter table public.votes enable row level security;
+revoke all on public.votes from anon, authenticated;
+
+create or replace function public.voter_hash(p_voter_key text)
+returns text
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select encode(digest(p_voter_key, 'sha256'), 'hex');
+$$;
+
+-- p_value is 1 (up), -1 (down) or 0 (clear). Returns the new score.
+create or replace function public.cast_vote(
+  p_target_type text,
+  p_target_id uuid,
+  p_voter_key text,
+  p_value integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_hash text;
+  v_old smallint;
+  v_score integer;
+begin
+  if coalesce(p_voter_key, '') = '' then
+    raise exception 'Voter key is required';
+  end if;
+  if p_value not in (-1, 0, 1) then
+    raise exception 'Invalid vote';
+  end if;
+  v_hash := voter_hash(p_voter_key);
+
+  if p_target_type = 'post' then
+    perform 1 from posts where id = p_target_id for update;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    select value into v_old from votes
+     where post_id = p_target_id and voter_hash = v_hash;
+    delete from votes where post_id = p_target_id and voter_hash = v_hash;
+    if p_value <> 0 then
+      insert into votes (post_id, voter_hash, value)
+      values (p_target_id, v_hash, p_value);
+    end if;
+
+    update posts set upvotes = upvotes + p_value - coalesce(v_old, 0)
+     where id = p_target_id
+    returning upvotes into v_score;
+  elsif p_target_type = 'comment' then
+    perform 1 from comments
+     where id = p_target_id and deleted_at is null
+       for update;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    select value into v_old from votes
+     where comment_id = p_target_id and voter_hash = v_hash;
+    delete from votes where comment_id = p_target_id and voter_hash = v_hash;
+    if p_value <> 0 then
+      insert into votes (comment_id, voter_hash, value)
+      values (p_target_id, v_hash, p_value);
+    end if;
+
+    update comments set upvotes = upvotes + p_value - coalesce(v_old, 0)
+     where id = p_target_id
+    returning upvotes into v_score;
+  else
+    raise exception 'Invalid vote target';
+  end if;
+
+  return v_score;
+end;
+$$;
+
+-- The caller's votes on a post and on every comment under it.
+create or replace function public.get_my_votes(
+  p_post_id uuid,
+  p_voter_key text
+)
+returns table (target_type text, target_id uuid, value smallint)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select 'post', v.post_id, v.value
+    from votes v
+   where v.post_id = p_post_id
+     and v.voter_hash = voter_hash(p_voter_key)
+  union all
+  select 'comment', v.comment_id, v.value
+    from votes v
+    join comments c on c.id = v.comment_id
+   where c.post_id = p_post_id
+     and v.voter_hash = voter_hash(p_voter_key);
+$$;
+
+-- Unlimited anonymous upvoting is replaced by cast_vote.
+drop function if exists public.upvote_post(uuid);
+
+grant execute on function public.cast_vote(text, uuid, text, integer)
+  to anon, authenticated;
+grant execute on function public.get_my_votes(uuid, text)
+  to anon, authenticated;
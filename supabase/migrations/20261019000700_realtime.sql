@@ -0,0 +1,21 @@
+-- Streams post and comment changes to clients through Supabase Realtime.
+-- Realtime checks each change against the subscriber's row-level-security
+-- policies and column privileges, so hashed keys and search vectors are never
+-- sent. Votes stay private and are not published.
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['posts', 'comments'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
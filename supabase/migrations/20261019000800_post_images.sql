@@ -0,0 +1,19 @@
+-- Public bucket for images uploaded with posts. Clients resize images before
+-- uploading and refuse any that are still over the size limit; keep it in
+-- step with MAX_UPLOAD_BYTES in src/utils/image.ts.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('post-images', 'post-images', true, 5242880, array['image/jpeg', 'image/png'])
+on conflict (id) do update
+  set public = excluded.public,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+-- Anyone may upload, but objects can never be overwritten or deleted through
+-- the API, so an image stays available for as long as a post links to it.
+-- Public buckets are readable through their public URLs without a policy.
+drop policy if exists "Anyone can upload post images" on storage.objects;
+create policy "Anyone can upload post images"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (bucket_id = 'post-images');
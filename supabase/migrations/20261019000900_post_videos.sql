@@ -0,0 +1,108 @@
+-- Lets posts link a web video. The client decides which links it can embed;
+-- the database only makes sure the value is an http(s) URL.
+
+alter table public.posts
+  add column if not exists video_url text not null default '';
+
+alter table public.posts drop constraint if exists posts_video_url_check;
+alter table public.posts
+  add constraint posts_video_url_check
+  check (video_url = '' or video_url ~* '^https?://');
+
+grant select (video_url) on public.posts to anon, authenticated;
+
+drop function if exists public.update_post(uuid, text, text, text, text, text[]);
+
+create or replace function public.update_post(
+  p_post_id uuid,
+  p_secret_key text,
+  p_title text,
+  p_content text,
+  p_image_url text,
+  p_video_url text,
+  p_flags text[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if coalesce(trim(p_title), '') = '' then
+    raise exception 'Title is required';
+  end if;
+
+  update posts
+     set title = p_title,
+         content = coalesce(p_content, ''),
+         image_url = coalesce(p_image_url, ''),
+         video_url = coalesce(p_video_url, ''),
+         flags = coalesce(p_flags, '{}')
+   where id = p_post_id
+     and secret_key_matches(secret_key, p_secret_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+grant execute on function public.update_post(uuid, text, text, text, text, text, text[])
+  to anon, authenticated;
+
+-- The result columns change, so the function has to be recreated.
+drop function if exists public.search_posts(text, integer, integer);
+
+create function public.search_posts(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  comment_count integer,
+  rank real,
+  matched_comment text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as query
+  )
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.user_id, p.repost_id, p.flags, p.comment_count,
+         (case when p.search_vector @@ q.query
+               then ts_rank(p.search_vector, q.query) else 0 end
+          + coalesce(c.rank, 0) * 0.5)::real as rank,
+         c.content as matched_comment
+    from posts p
+   cross join q
+    left join lateral (
+      select cm.content, ts_rank(cm.search_vector, q.query) as rank
+        from comments cm
+       where cm.post_id = p.id
+         and cm.search_vector @@ q.query
+       order by rank desc
+       limit 1
+    ) c on true
+   where numnode(q.query) > 0
+     and (p.search_vector @@ q.query or c.content is not null)
+   order by rank desc, p.created_at desc, p.id desc
+   limit least(greatest(p_limit, 1), 50)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_posts(text, integer, integer)
+  to anon, authenticated;
@@ -0,0 +1,101 @@
+-- Hashtags written in a post's title or content become searchable tags, and
+-- popular_tags feeds the tag cloud. extractHashtags in src/utils/hashtags.ts
+-- uses the same rules for the local backend.
+
+create or replace function public.extract_hashtags(p_text text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(distinct lower(m[1])), '{}')
+    from regexp_matches(
+      coalesce(p_text, ''),
+      '(?:^|[^[:alnum:]_&#/])#([[:alpha:]][[:alnum:]_]{1,29})(?![[:alnum:]_])',
+      'g'
+    ) as m;
+$$;
+
+alter table public.posts
+  add column if not exists tags text[]
+  generated always as (
+    public.extract_hashtags(coalesce(title, '') || ' ' || coalesce(content, ''))
+  ) stored;
+
+create index if not exists posts_tags_idx on public.posts using gin (tags);
+
+grant select (tags) on public.posts to anon, authenticated;
+
+create or replace function public.popular_tags(p_limit integer default 20)
+returns table (tag text, count bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select t.tag, count(*)
+    from posts p
+   cross join unnest(p.tags) as t(tag)
+   group by t.tag
+   order by count(*) desc, t.tag
+   limit least(greatest(p_limit, 1), 100);
+$$;
+
+grant execute on function public.popular_tags(integer) to anon, authenticated;
+
+-- The result columns change, so the function has to be recreated.
+drop function if exists public.search_posts(text, integer, integer);
+
+create function public.search_posts(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  tags text[],
+  comment_count integer,
+  rank real,
+  matched_comment text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as query
+  )
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.user_id, p.repost_id, p.flags, p.tags,
+         p.comment_count,
+         (case when p.search_vector @@ q.query
+               then ts_rank(p.search_vector, q.query) else 0 end
+          + coalesce(c.rank, 0) * 0.5)::real as rank,
+         c.content as matched_comment
+    from posts p
+   cross join q
+    left join lateral (
+      select cm.content, ts_rank(cm.search_vector, q.query) as rank
+        from comments cm
+       where cm.post_id = p.id
+         and cm.search_vector @@ q.query
+       order by rank desc
+       limit 1
+    ) c on true
+   where numnode(q.query) > 0
+     and (p.search_vector @@ q.query or c.content is not null)
+   order by rank desc, p.created_at desc, p.id desc
+   limit least(greatest(p_limit, 1), 50)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_posts(text, integer, integer)
+  to anon, authenticated;
@@ -0,0 +1,153 @@
+-- Every edit keeps the fields it replaced as a revision, so a post's history
+-- can be compared and older versions restored. Revisions are only written by
+-- update_post; restoring one is an ordinary edit with the old fields.
+
+alter table public.posts
+  add column if not exists edited_at timestamptz;
+
+drop policy if exists "posts can be created" on public.posts;
+create policy "posts can be created" on public.posts
+  for insert with check (
+    upvotes = 0 and comment_count = 0 and edited_at is null
+  );
+
+grant select (edited_at) on public.posts to anon, authenticated;
+
+-- created_at is when the edit happened, i.e. when this version was replaced.
+create table if not exists public.post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  title text not null,
+  content text not null default '',
+  image_url text not null default '',
+  video_url text not null default '',
+  flags text[] not null default '{}'
+);
+
+create index if not exists post_revisions_post_id_idx
+  on public.post_revisions (post_id, created_at);
+
+alter table public.post_revisions enable row level security;
+
+drop policy if exists "post revisions are readable" on public.post_revisions;
+create policy "post revisions are readable" on public.post_revisions
+  for select using (true);
+
+revoke all on public.post_revisions from anon, authenticated;
+grant select on public.post_revisions to anon, authenticated;
+
+create or replace function public.update_post(
+  p_post_id uuid,
+  p_secret_key text,
+  p_title text,
+  p_content text,
+  p_image_url text,
+  p_video_url text,
+  p_flags text[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_post posts;
+begin
+  if coalesce(trim(p_title), '') = '' then
+    raise exception 'Title is required';
+  end if;
+
+  select * into v_post
+    from posts
+   where id = p_post_id
+     and secret_key_matches(secret_key, p_secret_key)
+     for update;
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+
+  -- Saving without changing anything should not clutter the history
+  if v_post.title = p_title
+     and v_post.content = coalesce(p_content, '')
+     and v_post.image_url = coalesce(p_image_url, '')
+     and v_post.video_url = coalesce(p_video_url, '')
+     and v_post.flags = coalesce(p_flags, '{}') then
+    return;
+  end if;
+
+  insert into post_revisions (post_id, title, content, image_url, video_url, flags)
+  values (v_post.id, v_post.title, v_post.content, v_post.image_url,
+          v_post.video_url, v_post.flags);
+
+  update posts
+     set title = p_title,
+         content = coalesce(p_content, ''),
+         image_url = coalesce(p_image_url, ''),
+         video_url = coalesce(p_video_url, ''),
+         flags = coalesce(p_flags, '{}'),
+         edited_at = now()
+   where id = v_post.id;
+end;
+$$;
+
+-- The result columns change, so the function has to be recreated.
+drop function if exists public.search_posts(text, integer, integer);
+
+create function public.search_posts(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  edited_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  tags text[],
+  comment_count integer,
+  rank real,
+  matched_comment text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as query
+  )
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.edited_at, p.user_id, p.repost_id, p.flags, p.tags,
+         p.comment_count,
+         (case when p.search_vector @@ q.query
+               then ts_rank(p.search_vector, q.query) else 0 end
+          + coalesce(c.rank, 0) * 0.5)::real as rank,
+         c.content as matched_comment
+    from posts p
+   cross join q
+    left join lateral (
+      select cm.content, ts_rank(cm.search_vector, q.query) as rank
+        from comments cm
+       where cm.post_id = p.id
+         and cm.search_vector @@ q.query
+       order by rank desc
+       limit 1
+    ) c on true
+   where numnode(q.query) > 0
+     and (p.search_vector @@ q.query or c.content is not null)
+   order by rank desc, p.created_at desc, p.id desc
+   limit least(greatest(p_limit, 1), 50)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_posts(text, integer, integer)
+  to anon, authenticated;
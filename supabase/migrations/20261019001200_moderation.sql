@@ -0,0 +1,468 @@
+-- Readers can report posts and comments. Anything with three open reports is
+-- hidden until a moderator looks at it. Moderators sign in with a key stored
+-- hashed in moderator_keys, act only through the functions below, and every
+-- action is written to moderation_log.
+--
+-- Add a moderator with:
+--   insert into public.moderator_keys (label, key_hash)
+--   values ('Name', crypt('their key', gen_salt('bf')));
+
+alter table public.posts
+  add column if not exists hidden_at timestamptz;
+
+-- A hidden comment's text moves to hidden_content, which clients cannot
+-- select, so the thread keeps its shape without showing what was hidden.
+alter table public.comments
+  add column if not exists hidden_at timestamptz,
+  add column if not exists hidden_content text;
+
+-- Hidden posts disappear for everyone; moderators see them through
+-- list_moderation_queue.
+drop policy if exists "posts are readable" on public.posts;
+create policy "posts are readable" on public.posts
+  for select using (hidden_at is null);
+
+drop policy if exists "posts can be created" on public.posts;
+create policy "posts can be created" on public.posts
+  for insert with check (
+    upvotes = 0 and comment_count = 0 and edited_at is null
+    and hidden_at is null
+  );
+
+drop policy if exists "comments can be created" on public.comments;
+create policy "comments can be created" on public.comments
+  for insert with check (
+    edited_at is null and deleted_at is null and upvotes = 0
+    and hidden_at is null and hidden_content is null
+  );
+
+grant select (hidden_at) on public.comments to anon, authenticated;
+
+-- Authors cannot edit a hidden comment back into view, but may still delete it.
+create or replace function public.update_comment(
+  p_comment_id uuid,
+  p_key text,
+  p_content text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if coalesce(trim(p_content), '') = '' then
+    raise exception 'Comment cannot be empty';
+  end if;
+
+  update comments c
+     set content = p_content,
+         edited_at = now()
+   where c.id = p_comment_id
+     and c.deleted_at is null
+     and c.hidden_at is null
+     and comment_key_matches(c, p_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+create or replace function public.delete_comment(
+  p_comment_id uuid,
+  p_key text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  update comments c
+     set content = '',
+         hidden_content = null,
+         deleted_at = now()
+   where c.id = p_comment_id
+     and c.deleted_at is null
+     and comment_key_matches(c, p_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+create table if not exists public.moderator_keys (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  label text not null,
+  key_hash text not null
+);
+
+create table if not exists public.reports (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  post_id uuid references public.posts (id) on delete cascade,
+  comment_id uuid references public.comments (id) on delete cascade,
+  reporter_hash text not null,
+  reason text not null
+    check (reason in ('spam', 'harassment', 'off_topic', 'misinformation', 'other')),
+  details text not null default '' check (char_length(details) <= 500),
+  -- dismissed: a moderator found nothing wrong; actioned: hidden or deleted
+  status text not null default 'open'
+    check (status in ('open', 'dismissed', 'actioned')),
+  check (num_nonnulls(post_id, comment_id) = 1)
+);
+
+create index if not exists reports_post_id_idx
+  on public.reports (post_id) where post_id is not null;
+create index if not exists reports_comment_id_idx
+  on public.reports (comment_id) where comment_id is not null;
+
+create table if not exists public.moderation_log (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  moderator text not null,
+  action text not null check (action in ('dismiss', 'hide', 'restore', 'delete')),
+  target_type text not null check (target_type in ('post', 'comment')),
+  target_id uuid not null,
+  -- No foreign keys: entries outlive the content they describe
+  post_id uuid not null,
+  summary text not null default ''
+);
+
+create index if not exists moderation_log_created_at_idx
+  on public.moderation_log (created_at desc);
+
+-- No policies: these tables are only reachable through the functions below.
+alter table public.moderator_keys enable row level security;
+alter table public.reports enable row level security;
+alter table public.moderation_log enable row level security;
+revoke all on public.moderator_keys, public.reports, public.moderation_log
+  from anon, authenticated;
+
+-- Returns the moderator's label, or raises if the key is not a moderator key.
+create or replace function public.require_moderator(p_key text)
+returns text
+language plpgsql
+stable
+set search_path = public, extensions
+as $$
+declare
+  v_label text;
+begin
+  select label into v_label
+    from moderator_keys
+   where secret_key_matches(key_hash, p_key)
+   limit 1;
+
+  if v_label is null then
+    raise exception 'Invalid moderator key';
+  end if;
+  return v_label;
+end;
+$$;
+
+revoke execute on function public.require_moderator(text) from public;
+
+create or replace function public.report_content(
+  p_target_type text,
+  p_target_id uuid,
+  p_reporter_key text,
+  p_reason text,
+  p_details text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_hash text;
+  v_open integer;
+begin
+  if coalesce(p_reporter_key, '') = '' then
+    raise exception 'Reporter key is required';
+  end if;
+  v_hash := voter_hash(p_reporter_key);
+
+  if p_target_type = 'post' then
+    perform 1 from posts
+     where id = p_target_id and hidden_at is null
+       for update;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    if exists (
+      select 1 from reports
+       where post_id = p_target_id and reporter_hash = v_hash
+         and status = 'open'
+    ) then
+      raise exception 'You have already reported this';
+    end if;
+
+    insert into reports (post_id, reporter_hash, reason, details)
+    values (p_target_id, v_hash, p_reason, coalesce(trim(p_details), ''));
+
+    select count(*) into v_open
+      from reports where post_id = p_target_id and status = 'open';
+    if v_open >= 3 then
+      update posts set hidden_at = now() where id = p_target_id;
+    end if;
+  elsif p_target_type = 'comment' then
+    perform 1 from comments
+     where id = p_target_id and deleted_at is null and hidden_at is null
+       for update;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    if exists (
+      select 1 from reports
+       where comment_id = p_target_id and reporter_hash = v_hash
+         and status = 'open'
+    ) then
+      raise exception 'You have already reported this';
+    end if;
+
+    insert into reports (comment_id, reporter_hash, reason, details)
+    values (p_target_id, v_hash, p_reason, coalesce(trim(p_details), ''));
+
+    select count(*) into v_open
+      from reports where comment_id = p_target_id and status = 'open';
+    if v_open >= 3 then
+      update comments
+         set hidden_at = now(), hidden_content = content, content = ''
+       where id = p_target_id;
+    end if;
+  else
+    raise exception 'Invalid report target';
+  end if;
+end;
+$$;
+
+-- Everything with open reports, plus everything currently hidden.
+create or replace function public.list_moderation_queue(p_moderator_key text)
+returns table (
+  target_type text,
+  target_id uuid,
+  post_id uuid,
+  title text,
+  content text,
+  user_id text,
+  hidden_at timestamptz,
+  report_count integer,
+  reasons text[],
+  details text[],
+  last_reported_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+#variable_conflict use_column
+begin
+  perform require_moderator(p_moderator_key);
+
+  return query
+    with open_reports as (
+      select r.post_id, r.comment_id, count(*)::integer as report_count,
+             array_agg(distinct r.reason) as reasons,
+             coalesce(array_agg(r.details) filter (where r.details <> ''), '{}')
+               as details,
+             max(r.created_at) as last_reported_at
+        from reports r
+       where r.status = 'open'
+       group by r.post_id, r.comment_id
+    )
+    select 'post'::text, p.id, p.id, p.title, p.content, p.user_id,
+           p.hidden_at, coalesce(o.report_count, 0),
+           coalesce(o.reasons, '{}'), coalesce(o.details, '{}'),
+           o.last_reported_at
+      from posts p
+      left join open_reports o on o.post_id = p.id
+     where o.report_count is not null or p.hidden_at is not null
+    union all
+    select 'comment'::text, c.id, c.post_id, p.title,
+           coalesce(c.hidden_content, c.content), c.user_id, c.hidden_at,
+           coalesce(o.report_count, 0), coalesce(o.reasons, '{}'),
+           coalesce(o.details, '{}'), o.last_reported_at
+      from comments c
+      join posts p on p.id = c.post_id
+      left join open_reports o on o.comment_id = c.id
+     where c.deleted_at is null
+       and (o.report_count is not null or c.hidden_at is not null)
+     order by 11 desc nulls last;
+end;
+$$;
+
+-- p_action is dismiss (close the reports), hide, restore (unhide and close
+-- the reports) or delete.
+create or replace function public.moderate_content(
+  p_moderator_key text,
+  p_target_type text,
+  p_target_id uuid,
+  p_action text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_moderator text;
+  v_post_id uuid;
+  v_summary text;
+begin
+  v_moderator := require_moderator(p_moderator_key);
+  if p_action not in ('dismiss', 'hide', 'restore', 'delete') then
+    raise exception 'Invalid moderation action';
+  end if;
+
+  update reports
+     set status = case when p_action in ('dismiss', 'restore')
+                       then 'dismissed' else 'actioned' end
+   where status = 'open'
+     and (post_id = p_target_id or comment_id = p_target_id);
+
+  if p_target_type = 'post' then
+    select id, title into v_post_id, v_summary
+      from posts where id = p_target_id for update;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    if p_action = 'hide' then
+      update posts set hidden_at = coalesce(hidden_at, now())
+       where id = p_target_id;
+    elsif p_action = 'restore' then
+      update posts set hidden_at = null where id = p_target_id;
+    elsif p_action = 'delete' then
+      delete from comments where post_id = p_target_id;
+      delete from posts where id = p_target_id;
+    end if;
+  elsif p_target_type = 'comment' then
+    select post_id, left(coalesce(hidden_content, content), 140)
+      into v_post_id, v_summary
+      from comments
+     where id = p_target_id and deleted_at is null
+       for update;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    if p_action = 'hide' then
+      update comments
+         set hidden_at = now(), hidden_content = content, content = ''
+       where id = p_target_id and hidden_at is null;
+    elsif p_action = 'restore' then
+      update comments
+         set content = coalesce(hidden_content, content),
+             hidden_content = null,
+             hidden_at = null
+       where id = p_target_id and hidden_at is not null;
+    elsif p_action = 'delete' then
+      -- Blanked like an author's delete, so replies stay attached
+      update comments
+         set content = '', hidden_content = null, hidden_at = null,
+             deleted_at = now()
+       where id = p_target_id;
+    end if;
+  else
+    raise exception 'Invalid moderation target';
+  end if;
+
+  insert into moderation_log
+    (moderator, action, target_type, target_id, post_id, summary)
+  values
+    (v_moderator, p_action, p_target_type, p_target_id, v_post_id, v_summary);
+end;
+$$;
+
+create or replace function public.list_moderation_log(
+  p_moderator_key text,
+  p_limit integer default 50
+)
+returns setof public.moderation_log
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform require_moderator(p_moderator_key);
+
+  return query
+    select * from moderation_log
+     order by created_at desc
+     limit least(greatest(p_limit, 1), 200);
+end;
+$$;
+
+grant execute on function public.report_content(text, uuid, text, text, text)
+  to anon, authenticated;
+grant execute on function public.list_moderation_queue(text)
+  to anon, authenticated;
+grant execute on function public.moderate_content(text, text, uuid, text)
+  to anon, authenticated;
+grant execute on function public.list_moderation_log(text, integer)
+  to anon, authenticated;
+
+-- Hidden posts must not turn up in search either.
+create or replace function public.search_posts(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  edited_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  tags text[],
+  comment_count integer,
+  rank real,
+  matched_comment text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as query
+  )
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.edited_at, p.user_id, p.repost_id, p.flags, p.tags,
+         p.comment_count,
+         (case when p.search_vector @@ q.query
+               then ts_rank(p.search_vector, q.query) else 0 end
+          + coalesce(c.rank, 0) * 0.5)::real as rank,
+         c.content as matched_comment
+    from posts p
+   cross join q
+    left join lateral (
+      select cm.content, ts_rank(cm.search_vector, q.query) as rank
+        from comments cm
+       where cm.post_id = p.id
+         and cm.hidden_at is null
+         and cm.search_vector @@ q.query
+       order by rank desc
+       limit 1
+    ) c on true
+   where numnode(q.query) > 0
+     and p.hidden_at is null
+     and (p.search_vector @@ q.query or c.content is not null)
+   order by rank desc, p.created_at desc, p.id desc
+   limit least(greatest(p_limit, 1), 50)
+  offset greatest(p_offset, 0);
+$$;
@@ -0,0 +1,166 @@
+-- Safeguards on everything written to posts and comments: how often each
+-- identity may post or comment, words that are masked or rejected, how many
+-- links one post or comment may carry, and no posting the same text twice.
+-- The limits live in content_rules (a single row) and word_filter so they can
+-- be tuned without a migration. src/utils/contentRules.ts applies the same
+-- checks for the local backend.
+
+create table if not exists public.content_rules (
+  id boolean primary key default true check (id),
+  posts_per_minute integer not null default 3,
+  comments_per_minute integer not null default 10,
+  max_links integer not null default 5,
+  duplicate_window interval not null default interval '1 hour'
+);
+
+insert into public.content_rules default values on conflict do nothing;
+
+-- mask replaces the word with asterisks; block rejects the text outright.
+create table if not exists public.word_filter (
+  word text primary key
+    check (word = lower(word) and word ~ '^[[:alnum:]]+( [[:alnum:]]+)*$'),
+  mode text not null check (mode in ('mask', 'block'))
+);
+
+insert into public.word_filter (word, mode) values
+  ('casino', 'block'),
+  ('viagra', 'block'),
+  ('crap', 'mask'),
+  ('damn', 'mask')
+on conflict do nothing;
+
+-- No policies: only the triggers below read these tables.
+alter table public.content_rules enable row level security;
+alter table public.word_filter enable row level security;
+revoke all on public.content_rules, public.word_filter from anon, authenticated;
+
+-- Masks filtered words, or raises if the text contains a blocked one. Words
+-- only match whole, case-insensitively.
+create or replace function public.filter_words(p_text text)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_text text := coalesce(p_text, '');
+  v_word record;
+begin
+  for v_word in select word, mode from word_filter loop
+    if v_text ~* ('\m' || v_word.word || '\M') then
+      if v_word.mode = 'block' then
+        raise exception 'Please remove "%" and try again', v_word.word;
+      end if;
+      v_text := regexp_replace(
+        v_text, '\m' || v_word.word || '\M', repeat('*', length(v_word.word)), 'gi'
+      );
+    end if;
+  end loop;
+  return v_text;
+end;
+$$;
+
+create or replace function public.count_links(p_text text)
+returns integer
+language sql
+immutable
+as $$
+  select count(*)::integer
+    from regexp_matches(coalesce(p_text, ''), 'https?://|www\.', 'gi');
+$$;
+
+create or replace function public.apply_post_safeguards()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rules content_rules;
+begin
+  select * into v_rules from content_rules;
+
+  new.title := filter_words(new.title);
+  new.content := filter_words(new.content);
+
+  if count_links(new.title) + count_links(new.content) > v_rules.max_links then
+    raise exception 'Posts can contain at most % links', v_rules.max_links;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if (
+      select count(*) from posts
+       where user_id = new.user_id
+         and created_at > now() - interval '1 minute'
+    ) >= v_rules.posts_per_minute then
+      raise exception 'You are posting too quickly. Please wait a minute and try again.';
+    end if;
+
+    if exists (
+      select 1 from posts
+       where user_id = new.user_id
+         and title = new.title
+         and content = new.content
+         and created_at > now() - v_rules.duplicate_window
+    ) then
+      raise exception 'You have already posted this';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_apply_safeguards on public.posts;
+create trigger posts_apply_safeguards
+  before insert or update of title, content on public.posts
+  for each row execute function public.apply_post_safeguards();
+
+create or replace function public.apply_comment_safeguards()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rules content_rules;
+begin
+  select * into v_rules from content_rules;
+
+  new.content := filter_words(new.content);
+
+  if count_links(new.content) > v_rules.max_links then
+    raise exception 'Comments can contain at most % links', v_rules.max_links;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if (
+      select count(*) from comments
+       where user_id = new.user_id
+         and created_at > now() - interval '1 minute'
+    ) >= v_rules.comments_per_minute then
+      raise exception 'You are commenting too quickly. Please wait a minute and try again.';
+    end if;
+
+    if exists (
+      select 1 from comments
+       where user_id = new.user_id
+         and post_id = new.post_id
+         and content = new.content
+         and created_at > now() - v_rules.duplicate_window
+    ) then
+      raise exception 'You have already posted this comment';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_apply_safeguards on public.comments;
+create trigger comments_apply_safeguards
+  before insert or update of content on public.comments
+  for each row execute function public.apply_comment_safeguards();
+
+revoke execute on function public.apply_post_safeguards() from public;
+revoke execute on function public.apply_comment_safeguards() from public;
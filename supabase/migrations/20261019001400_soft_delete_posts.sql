@@ -0,0 +1,217 @@
+-- Deleting a post only marks it with deleted_at, so the author can undo it
+-- or restore it from their trash for 30 days. Deleted posts drop out of every
+-- read like hidden ones do, and are removed for good (with their comments,
+-- votes and revisions) once the 30 days are up.
+--
+-- Posts also remember their author's identity secret, hashed as author_key,
+-- so the trash can list an identity's deleted posts and restore them without
+-- asking for each post's secret key.
+
+alter table public.posts
+  add column if not exists deleted_at timestamptz,
+  add column if not exists author_key text not null default '';
+
+drop trigger if exists posts_hash_author_key on public.posts;
+create trigger posts_hash_author_key
+  before insert or update of author_key on public.posts
+  for each row execute function public.hash_author_key();
+
+drop policy if exists "posts are readable" on public.posts;
+create policy "posts are readable" on public.posts
+  for select using (hidden_at is null and deleted_at is null);
+
+drop policy if exists "posts can be created" on public.posts;
+create policy "posts can be created" on public.posts
+  for insert with check (
+    upvotes = 0 and comment_count = 0 and edited_at is null
+    and hidden_at is null and deleted_at is null
+  );
+
+create or replace function public.post_key_matches(
+  p_post public.posts,
+  p_key text
+)
+returns boolean
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select secret_key_matches(p_post.secret_key, p_key)
+      or secret_key_matches(p_post.author_key, p_key);
+$$;
+
+-- Replaces the hard delete, which removed comments and the post in two
+-- statements.
+create or replace function public.delete_post(
+  p_post_id uuid,
+  p_secret_key text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  update posts p
+     set deleted_at = now()
+   where p.id = p_post_id
+     and p.deleted_at is null
+     and post_key_matches(p, p_secret_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+-- Removes posts whose 30 days in the trash are over, along with their
+-- comments, votes and revisions (the foreign keys cascade).
+create or replace function public.purge_deleted_posts()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from posts where deleted_at < now() - interval '30 days';
+$$;
+
+revoke execute on function public.purge_deleted_posts() from public;
+
+-- Runs every night whether or not anyone deletes anything.
+create extension if not exists pg_cron with schema pg_catalog;
+
+select cron.schedule(
+  'purge-deleted-posts',
+  '0 3 * * *',
+  'select public.purge_deleted_posts()'
+);
+
+create or replace function public.restore_post(
+  p_post_id uuid,
+  p_key text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform 1 from posts
+   where id = p_post_id
+     and deleted_at > now() - interval '30 days'
+     for update;
+  if not found then
+    raise exception using errcode = 'P0002', message = 'Not found';
+  end if;
+
+  update posts p
+     set deleted_at = null
+   where p.id = p_post_id
+     and post_key_matches(p, p_key);
+
+  if not found then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+-- The trash for one identity, most recently deleted first. user_id narrows
+-- the search before the (slow) key comparison.
+create or replace function public.list_deleted_posts(
+  p_user_id text,
+  p_author_key text
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  edited_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  tags text[],
+  comment_count integer,
+  deleted_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.edited_at, p.user_id, p.repost_id, p.flags, p.tags,
+         p.comment_count, p.deleted_at
+    from posts p
+   where p.user_id = p_user_id
+     and p.deleted_at > now() - interval '30 days'
+     and coalesce(p_author_key, '') <> ''
+     and secret_key_matches(p.author_key, p_author_key)
+   order by p.deleted_at desc;
+$$;
+
+grant execute on function public.restore_post(uuid, text)
+  to anon, authenticated;
+grant execute on function public.list_deleted_posts(text, text)
+  to anon, authenticated;
+
+-- Deleted posts must not turn up in search either.
+create or replace function public.search_posts(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  edited_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  tags text[],
+  comment_count integer,
+  rank real,
+  matched_comment text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as query
+  )
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.edited_at, p.user_id, p.repost_id, p.flags, p.tags,
+         p.comment_count,
+         (case when p.search_vector @@ q.query
+               then ts_rank(p.search_vector, q.query) else 0 end
+          + coalesce(c.rank, 0) * 0.5)::real as rank,
+         c.content as matched_comment
+    from posts p
+   cross join q
+    left join lateral (
+      select cm.content, ts_rank(cm.search_vector, q.query) as rank
+        from comments cm
+       where cm.post_id = p.id
+         and cm.hidden_at is null
+         and cm.search_vector @@ q.query
+       order by rank desc
+       limit 1
+    ) c on true
+   where numnode(q.query) > 0
+     and p.hidden_at is null
+     and p.deleted_at is null
+     and (p.search_vector @@ q.query or c.content is not null)
+   order by rank desc, p.created_at desc, p.id desc
+   limit least(greatest(p_limit, 1), 50)
+  offset greatest(p_offset, 0);
+$$;
@@ -0,0 +1,93 @@
+-- Readers can bookmark posts. Like votes, bookmarks belong to a hash of the
+-- reader's identity secret and are only reachable through the functions
+-- below. Each bookmark remembers the post's comment count when the reader
+-- last opened it, so the saved list can point out new comments.
+
+create table if not exists public.bookmarks (
+  owner_hash text not null,
+  post_id uuid not null references public.posts (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  seen_comment_count integer not null default 0,
+  primary key (owner_hash, post_id)
+);
+
+alter table public.bookmarks enable row level security;
+revoke all on public.bookmarks from anon, authenticated;
+
+-- Newest first. Bookmarks on hidden or deleted posts are kept, in case the
+-- post comes back, but left out here.
+create or replace function public.list_bookmarks(p_owner_key text)
+returns table (post_id uuid, created_at timestamptz, seen_comment_count integer)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select b.post_id, b.created_at, b.seen_comment_count
+    from bookmarks b
+    join posts p on p.id = b.post_id
+   where b.owner_hash = voter_hash(p_owner_key)
+     and p.hidden_at is null
+     and p.deleted_at is null
+   order by b.created_at desc;
+$$;
+
+create or replace function public.set_bookmark(
+  p_owner_key text,
+  p_post_id uuid,
+  p_saved boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_comment_count integer;
+begin
+  if coalesce(p_owner_key, '') = '' then
+    raise exception 'Owner key is required';
+  end if;
+
+  if not p_saved then
+    delete from bookmarks
+     where owner_hash = voter_hash(p_owner_key) and post_id = p_post_id;
+    return;
+  end if;
+
+  select comment_count into v_comment_count
+    from posts
+   where id = p_post_id and hidden_at is null and deleted_at is null;
+  if not found then
+    raise exception using errcode = 'P0002', message = 'Not found';
+  end if;
+
+  insert into bookmarks (owner_hash, post_id, seen_comment_count)
+  values (voter_hash(p_owner_key), p_post_id, v_comment_count)
+  on conflict do nothing;
+end;
+$$;
+
+-- Called when the reader opens a post; does nothing if it is not bookmarked.
+create or replace function public.mark_bookmark_seen(
+  p_owner_key text,
+  p_post_id uuid
+)
+returns void
+language sql
+security definer
+set search_path = public, extensions
+as $$
+  update bookmarks b
+     set seen_comment_count = p.comment_count
+    from posts p
+   where p.id = b.post_id
+     and b.post_id = p_post_id
+     and b.owner_hash = voter_hash(p_owner_key);
+$$;
+
+grant execute on function public.list_bookmarks(text) to anon, authenticated;
+grant execute on function public.set_bookmark(text, uuid, boolean)
+  to anon, authenticated;
+grant execute on function public.mark_bookmark_seen(text, uuid)
+  to anon, authenticated;
@@ -0,0 +1,78 @@
+-- Profile pages for browser identities: totals and weekly activity for one
+-- user_id. Both functions run as the caller, so hidden and deleted posts are
+-- left out by the row level security policy on posts like everywhere else.
+
+create index if not exists posts_user_id_idx
+  on public.posts (user_id, created_at desc);
+create index if not exists comments_user_id_idx
+  on public.comments (user_id, created_at desc);
+
+-- joined_at is the identity's first post or comment. upvotes is the net score
+-- of everything they wrote that is still up.
+create or replace function public.user_stats(p_user_id text)
+returns table (
+  joined_at timestamptz,
+  post_count integer,
+  comment_count integer,
+  upvotes integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  with p as (
+    select min(created_at) as first_at, count(*) as n,
+           coalesce(sum(upvotes), 0) as score
+      from posts
+     where user_id = p_user_id
+  ), c as (
+    select min(created_at) as first_at,
+           count(*) filter (where deleted_at is null and hidden_at is null)
+             as n,
+           coalesce(sum(upvotes) filter (where deleted_at is null), 0)
+             as score
+      from comments
+     where user_id = p_user_id
+  )
+  select least(p.first_at, c.first_at), p.n::integer, c.n::integer,
+         (p.score + c.score)::integer
+    from p, c;
+$$;
+
+-- Posts and comments per week (weeks start on Monday), oldest first, for the
+-- last p_weeks weeks including the current one.
+create or replace function public.user_activity(
+  p_user_id text,
+  p_weeks integer default 12
+)
+returns table (week date, posts integer, comments integer)
+language sql
+stable
+set search_path = public
+as $$
+  with weeks as (
+    select generate_series(
+             date_trunc('week', now())
+               - (least(greatest(p_weeks, 1), 52) - 1) * interval '1 week',
+             date_trunc('week', now()),
+             interval '1 week'
+           ) as starts_at
+  )
+  select w.starts_at::date,
+         (select count(*)::integer from posts p
+           where p.user_id = p_user_id
+             and p.created_at >= w.starts_at
+             and p.created_at < w.starts_at + interval '1 week'),
+         (select count(*)::integer from comments c
+           where c.user_id = p_user_id
+             and c.deleted_at is null
+             and c.hidden_at is null
+             and c.created_at >= w.starts_at
+             and c.created_at < w.starts_at + interval '1 week')
+    from weeks w
+   order by w.starts_at;
+$$;
+
+grant execute on function public.user_stats(text) to anon, authenticated;
+grant execute on function public.user_activity(text, integer)
+  to anon, authenticated;
@@ -0,0 +1,393 @@
+-- In-app notifications: new comments on an author's posts, replies to their
+-- comments and upvote milestones. Triggers address them to the public
+-- user_id; reading them takes the identity secret as well. The first post or
+-- comment an identity writes binds its user_id to a hash of that secret in
+-- user_keys, and rows that reuse the user_id with another secret are refused.
+
+create table if not exists public.notification_settings (
+  user_id text primary key,
+  muted text[] not null default '{}'
+);
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id text not null,
+  type text not null check (type in ('comment', 'reply', 'milestone')),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  -- The new comment, or the comment that reached a milestone
+  comment_id uuid references public.comments (id) on delete cascade,
+  -- Who commented; null for milestones
+  actor_id text,
+  milestone integer,
+  read_at timestamptz
+);
+
+create index if not exists notifications_user_id_idx
+  on public.notifications (user_id, created_at desc);
+
+-- Each milestone is announced once, however often the score dips below it
+create unique index if not exists notifications_milestone_idx
+  on public.notifications (post_id, comment_id, milestone) nulls not distinct
+  where type = 'milestone';
+
+create table if not exists public.user_keys (
+  user_id text primary key,
+  key_hash text not null
+);
+
+alter table public.notification_settings enable row level security;
+alter table public.notifications enable row level security;
+alter table public.user_keys enable row level security;
+revoke all on public.notification_settings, public.notifications,
+  public.user_keys from anon, authenticated;
+
+-- Runs before the hash_author_key triggers (triggers fire in name order), so
+-- author_key is still the plain secret here. Rows without an author key bind
+-- nothing.
+create or replace function public.bind_user_key()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_hash text;
+begin
+  if coalesce(new.author_key, '') = '' then
+    return new;
+  end if;
+  v_hash := voter_hash(new.author_key);
+
+  insert into user_keys (user_id, key_hash)
+  values (new.user_id, v_hash)
+  on conflict (user_id) do nothing;
+
+  if not exists (
+    select 1 from user_keys
+     where user_id = new.user_id and key_hash = v_hash
+  ) then
+    raise exception 'This user ID belongs to another identity';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_bind_user_key on public.posts;
+create trigger posts_bind_user_key
+  before insert on public.posts
+  for each row execute function public.bind_user_key();
+
+drop trigger if exists comments_bind_user_key on public.comments;
+create trigger comments_bind_user_key
+  before insert on public.comments
+  for each row execute function public.bind_user_key();
+
+revoke execute on function public.bind_user_key() from public;
+
+-- Whether p_owner_key is the secret p_user_id is bound to. An identity that
+-- has written nothing yet has nobody's notifications to guard, so reads
+-- simply come back empty for it.
+create or replace function public.notification_owner_matches(
+  p_user_id text,
+  p_owner_key text
+)
+returns boolean
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select coalesce(p_owner_key, '') <> ''
+     and exists (
+           select 1 from user_keys
+            where user_id = p_user_id
+              and key_hash = voter_hash(p_owner_key)
+         );
+$$;
+
+create or replace function public.require_notification_owner(
+  p_user_id text,
+  p_owner_key text
+)
+returns void
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  if coalesce(p_owner_key, '') = '' then
+    raise exception 'Owner key is required';
+  end if;
+
+  if not notification_owner_matches(p_user_id, p_owner_key) then
+    raise exception 'Invalid secret key';
+  end if;
+end;
+$$;
+
+-- Skips types the recipient muted.
+create or replace function public.notify_user(
+  p_user_id text,
+  p_type text,
+  p_post_id uuid,
+  p_comment_id uuid,
+  p_actor_id text,
+  p_milestone integer
+)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into notifications
+    (user_id, type, post_id, comment_id, actor_id, milestone)
+  select p_user_id, p_type, p_post_id, p_comment_id, p_actor_id, p_milestone
+   where not exists (
+     select 1 from notification_settings
+      where user_id = p_user_id and p_type = any (muted)
+   )
+  on conflict do nothing;
+$$;
+
+revoke execute on function public.notification_owner_matches(text, text)
+  from public;
+revoke execute on function public.require_notification_owner(text, text)
+  from public;
+revoke execute on function
+  public.notify_user(text, text, uuid, uuid, text, integer) from public;
+
+-- A reply notifies the parent comment's author, and every comment notifies
+-- the post's author unless they were already told about it as a reply.
+-- Nobody is notified about their own comments.
+create or replace function public.notify_on_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post_author text;
+  v_parent_author text;
+begin
+  select user_id into v_post_author from posts where id = new.post_id;
+
+  if new.parent_id is not null then
+    select user_id into v_parent_author
+      from comments
+     where id = new.parent_id and deleted_at is null;
+    if v_parent_author <> new.user_id then
+      perform notify_user(v_parent_author, 'reply', new.post_id, new.id,
+                          new.user_id, null);
+    end if;
+  end if;
+
+  if v_post_author <> new.user_id
+     and v_post_author is distinct from v_parent_author then
+    perform notify_user(v_post_author, 'comment', new.post_id, new.id,
+                        new.user_id, null);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists comments_notify on public.comments;
+create trigger comments_notify
+  after insert on public.comments
+  for each row execute function public.notify_on_comment();
+
+-- Keep in step with VOTE_MILESTONES in src/api/notifications.ts.
+create or replace function public.notify_on_milestone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_milestone integer;
+begin
+  for v_milestone in
+    select m from unnest(array[10, 25, 50, 100, 250, 500, 1000]) as m
+     where m > old.upvotes and m <= new.upvotes
+  loop
+    if tg_table_name = 'posts' then
+      perform notify_user(new.user_id, 'milestone', new.id, null, null,
+                          v_milestone);
+    else
+      perform notify_user(new.user_id, 'milestone', new.post_id, new.id, null,
+                          v_milestone);
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists posts_notify_milestone on public.posts;
+create trigger posts_notify_milestone
+  after update of upvotes on public.posts
+  for each row when (new.upvotes > old.upvotes)
+  execute function public.notify_on_milestone();
+
+drop trigger if exists comments_notify_milestone on public.comments;
+create trigger comments_notify_milestone
+  after update of upvotes on public.comments
+  for each row when (new.upvotes > old.upvotes)
+  execute function public.notify_on_milestone();
+
+revoke execute on function public.notify_on_comment() from public;
+revoke execute on function public.notify_on_milestone() from public;
+
+-- Newest first. Muted types are left out, as are notifications about posts
+-- and comments that have since been hidden or deleted.
+create or replace function public.list_notifications(
+  p_user_id text,
+  p_owner_key text,
+  p_limit integer default 50
+)
+returns table (
+  id uuid,
+  type text,
+  post_id uuid,
+  post_title text,
+  comment_id uuid,
+  comment_excerpt text,
+  actor_id text,
+  milestone integer,
+  created_at timestamptz,
+  read_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not notification_owner_matches(p_user_id, p_owner_key) then
+    return;
+  end if;
+
+  return query
+  select n.id, n.type, n.post_id, p.title, n.comment_id, left(c.content, 140),
+         n.actor_id, n.milestone, n.created_at, n.read_at
+    from notifications n
+    join posts p on p.id = n.post_id
+    left join comments c on c.id = n.comment_id
+    left join notification_settings s on s.user_id = n.user_id
+   where n.user_id = p_user_id
+     and not n.type = any (coalesce(s.muted, '{}'))
+     and p.hidden_at is null
+     and p.deleted_at is null
+     and (n.comment_id is null
+          or (c.deleted_at is null and c.hidden_at is null))
+   order by n.created_at desc
+   limit least(greatest(p_limit, 1), 100);
+end;
+$$;
+
+create or replace function public.count_unread_notifications(
+  p_user_id text,
+  p_owner_key text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not notification_owner_matches(p_user_id, p_owner_key) then
+    return 0;
+  end if;
+
+  return (
+    select count(*)::integer
+      from notifications n
+      join posts p on p.id = n.post_id
+      left join comments c on c.id = n.comment_id
+      left join notification_settings s on s.user_id = n.user_id
+     where n.user_id = p_user_id
+       and n.read_at is null
+       and not n.type = any (coalesce(s.muted, '{}'))
+       and p.hidden_at is null
+       and p.deleted_at is null
+       and (n.comment_id is null
+            or (c.deleted_at is null and c.hidden_at is null))
+  );
+end;
+$$;
+
+-- Marks the given notifications read, or all of them when p_ids is null.
+create or replace function public.mark_notifications_read(
+  p_user_id text,
+  p_owner_key text,
+  p_ids uuid[] default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform require_notification_owner(p_user_id, p_owner_key);
+
+  update notifications
+     set read_at = now()
+   where user_id = p_user_id
+     and read_at is null
+     and (p_ids is null or id = any (p_ids));
+end;
+$$;
+
+create or replace function public.get_muted_notification_types(
+  p_user_id text,
+  p_owner_key text
+)
+returns text[]
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not notification_owner_matches(p_user_id, p_owner_key) then
+    return '{}';
+  end if;
+
+  return coalesce(
+    (select muted from notification_settings where user_id = p_user_id),
+    '{}'
+  );
+end;
+$$;
+
+create or replace function public.set_muted_notification_types(
+  p_user_id text,
+  p_owner_key text,
+  p_muted text[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform require_notification_owner(p_user_id, p_owner_key);
+
+  if not coalesce(p_muted, '{}') <@ array['comment', 'reply', 'milestone'] then
+    raise exception 'Invalid notification type';
+  end if;
+
+  insert into notification_settings (user_id, muted)
+  values (p_user_id, coalesce(p_muted, '{}'))
+  on conflict (user_id) do update set muted = excluded.muted;
+end;
+$$;
+
+grant execute on function public.list_notifications(text, text, integer)
+  to anon, authenticated;
+grant execute on function public.count_unread_notifications(text, text)
+  to anon, authenticated;
+grant execute on function public.mark_notifications_read(text, text, uuid[])
+  to anon, authenticated;
+grant execute on function public.get_muted_notification_types(text, text)
+  to anon, authenticated;
+grant execute on function
+  public.set_muted_notification_types(text, text, text[])
+  to anon, authenticated;
@@ -0,0 +1,322 @@
+-- Fixtures and match threads. Fixtures are entered by hand in the database;
+-- posts can be attached to one, and a pg_cron job opens a pre-match, live and
+-- post-match thread for each fixture as its windows come round.
+
+create table if not exists public.fixtures (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  opponent text not null check (opponent <> ''),
+  competition text not null check (competition <> ''),
+  kickoff timestamptz not null,
+  venue text not null,
+  -- Whether United are the home side
+  is_home boolean not null default true,
+  united_score integer check (united_score >= 0),
+  opponent_score integer check (opponent_score >= 0),
+  check ((united_score is null) = (opponent_score is null))
+);
+
+create index if not exists fixtures_kickoff_idx on public.fixtures (kickoff);
+
+alter table public.fixtures enable row level security;
+
+drop policy if exists "fixtures are readable" on public.fixtures;
+create policy "fixtures are readable" on public.fixtures
+  for select using (true);
+
+revoke all on public.fixtures from anon, authenticated;
+grant select on public.fixtures to anon, authenticated;
+
+alter table public.posts
+  add column if not exists fixture_id uuid
+    references public.fixtures (id) on delete set null,
+  add column if not exists match_thread text
+    check (match_thread in ('pre', 'live', 'post'));
+
+create index if not exists posts_fixture_id_idx
+  on public.posts (fixture_id, created_at desc);
+create unique index if not exists posts_match_thread_idx
+  on public.posts (fixture_id, match_thread)
+  where match_thread is not null;
+
+grant select (fixture_id) on public.posts to anon, authenticated;
+
+-- Only create_match_threads opens match threads.
+drop policy if exists "posts can be created" on public.posts;
+create policy "posts can be created" on public.posts
+  for insert with check (
+    upvotes = 0 and comment_count = 0 and edited_at is null
+    and hidden_at is null and deleted_at is null and match_thread is null
+  );
+
+-- Opens the threads that are due for each fixture: pre-match from 24 hours
+-- before kickoff, live from kickoff and post-match from 120 minutes after it,
+-- until two days after that. A window that passed unseen still gets its
+-- thread. Keep the windows, titles and text in step with
+-- src/utils/fixtures.ts.
+create or replace function public.create_match_threads()
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_fixture fixtures;
+  v_kind text;
+  v_home text;
+  v_away text;
+  v_score text;
+begin
+  for v_fixture in
+    select * from fixtures
+     where kickoff - interval '24 hours' <= now()
+       and kickoff + interval '120 minutes' + interval '2 days' > now()
+  loop
+    if v_fixture.is_home then
+      v_home := 'Manchester United';
+      v_away := v_fixture.opponent;
+      v_score := v_fixture.united_score || '-' || v_fixture.opponent_score;
+    else
+      v_home := v_fixture.opponent;
+      v_away := 'Manchester United';
+      v_score := v_fixture.opponent_score || '-' || v_fixture.united_score;
+    end if;
+
+    foreach v_kind in array array['pre', 'live', 'post'] loop
+      exit when v_kind = 'live' and now() < v_fixture.kickoff;
+      exit when v_kind = 'post'
+        and now() < v_fixture.kickoff + interval '120 minutes';
+
+      continue when exists (
+        select 1 from posts
+         where fixture_id = v_fixture.id and match_thread = v_kind
+      );
+
+      -- A thread the content safeguards turn away is logged and tried again
+      -- next time
+      begin
+        insert into posts
+          (title, content, user_id, secret_key, flags, fixture_id, match_thread)
+        values (
+          case v_kind
+            when 'pre' then 'Pre-match thread'
+            when 'live' then 'Match thread'
+            else 'Post-match thread'
+          end || ': ' || v_home || ' '
+            || case when v_kind = 'post' then coalesce(v_score, 'vs')
+                    else 'vs' end
+            || ' ' || v_away || ' | ' || v_fixture.competition,
+          case v_kind
+            when 'pre' then 'Build-up to the match at ' || v_fixture.venue
+                            || ': team news, line-ups and predictions.'
+            when 'live' then 'Live discussion while the match is on at '
+                             || v_fixture.venue || '.'
+            else 'Reactions, player ratings and talking points from the match at '
+                 || v_fixture.venue || '.'
+          end,
+          'matchbot',
+          -- Nobody holds this key, so the thread cannot be edited or deleted
+          gen_random_uuid()::text,
+          array['Discussion'],
+          v_fixture.id,
+          v_kind
+        )
+        on conflict do nothing;
+      exception
+        when raise_exception then
+          raise warning 'Could not open the % thread for fixture %: %',
+            v_kind, v_fixture.id, sqlerrm;
+      end;
+    end loop;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.create_match_threads() from public;
+
+-- Checks for due threads every minute, whether or not anyone is browsing.
+-- Reading the fixtures checks as well, so a thread is there the moment its
+-- window opens.
+create extension if not exists pg_cron with schema pg_catalog;
+
+select cron.schedule(
+  'create-match-threads',
+  '* * * * *',
+  'select public.create_match_threads()'
+);
+
+-- The visible match threads of a fixture as {"pre": id, "live": id, ...}
+create or replace function public.fixture_threads(p_fixture_id uuid)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(jsonb_object_agg(match_thread, id), '{}'::jsonb)
+    from posts
+   where fixture_id = p_fixture_id
+     and match_thread is not null
+     and hidden_at is null
+     and deleted_at is null;
+$$;
+
+create or replace function public.list_fixtures()
+returns table (
+  id uuid,
+  opponent text,
+  competition text,
+  kickoff timestamptz,
+  venue text,
+  is_home boolean,
+  united_score integer,
+  opponent_score integer,
+  threads jsonb
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform create_match_threads();
+
+  return query
+  select f.id, f.opponent, f.competition, f.kickoff, f.venue, f.is_home,
+         f.united_score, f.opponent_score, fixture_threads(f.id)
+    from fixtures f
+   order by f.kickoff;
+end;
+$$;
+
+create or replace function public.get_fixture(p_fixture_id uuid)
+returns table (
+  id uuid,
+  opponent text,
+  competition text,
+  kickoff timestamptz,
+  venue text,
+  is_home boolean,
+  united_score integer,
+  opponent_score integer,
+  threads jsonb
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform create_match_threads();
+
+  return query
+  select f.id, f.opponent, f.competition, f.kickoff, f.venue, f.is_home,
+         f.united_score, f.opponent_score, fixture_threads(f.id)
+    from fixtures f
+   where f.id = p_fixture_id;
+end;
+$$;
+
+grant execute on function public.list_fixtures() to anon, authenticated;
+grant execute on function public.get_fixture(uuid) to anon, authenticated;
+
+-- Post rows returned by functions carry fixture_id like the table does.
+drop function if exists public.list_deleted_posts(text, text);
+create function public.list_deleted_posts(
+  p_user_id text,
+  p_author_key text
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  edited_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  tags text[],
+  comment_count integer,
+  fixture_id uuid,
+  deleted_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.edited_at, p.user_id, p.repost_id, p.flags, p.tags,
+         p.comment_count, p.fixture_id, p.deleted_at
+    from posts p
+   where p.user_id = p_user_id
+     and p.deleted_at > now() - interval '30 days'
+     and coalesce(p_author_key, '') <> ''
+     and secret_key_matches(p.author_key, p_author_key)
+   order by p.deleted_at desc;
+$$;
+
+grant execute on function public.list_deleted_posts(text, text)
+  to anon, authenticated;
+
+drop function if exists public.search_posts(text, integer, integer);
+create function public.search_posts(
+  p_query text,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  image_url text,
+  video_url text,
+  upvotes integer,
+  created_at timestamptz,
+  edited_at timestamptz,
+  user_id text,
+  repost_id uuid,
+  flags text[],
+  tags text[],
+  comment_count integer,
+  fixture_id uuid,
+  rank real,
+  matched_comment text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as query
+  )
+  select p.id, p.title, p.content, p.image_url, p.video_url, p.upvotes,
+         p.created_at, p.edited_at, p.user_id, p.repost_id, p.flags, p.tags,
+         p.comment_count, p.fixture_id,
+         (case when p.search_vector @@ q.query
+               then ts_rank(p.search_vector, q.query) else 0 end
+          + coalesce(c.rank, 0) * 0.5)::real as rank,
+         c.content as matched_comment
+    from posts p
+   cross join q
+    left join lateral (
+      select cm.content, ts_rank(cm.search_vector, q.query) as rank
+        from comments cm
+       where cm.post_id = p.id
+         and cm.hidden_at is null
+         and cm.search_vector @@ q.query
+       order by rank desc
+       limit 1
+    ) c on true
+   where numnode(q.query) > 0
+     and p.hidden_at is null
+     and p.deleted_at is null
+     and (p.search_vector @@ q.query or c.content is not null)
+   order by rank desc, p.created_at desc, p.id desc
+   limit least(greatest(p_limit, 1), 50)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_posts(text, integer, integer)
+  to anon, authenticated;
@@ -0,0 +1,26 @@
+-- Revisions are only readable while their post is, so the history of a
+-- hidden or deleted post cannot be read from post_revisions directly. The
+-- check runs as the table owner because clients cannot read hidden_at or
+-- deleted_at on posts.
+
+create or replace function public.post_is_visible(p_post_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from posts
+     where id = p_post_id
+       and hidden_at is null
+       and deleted_at is null
+  );
+$$;
+
+revoke execute on function public.post_is_visible(uuid) from public;
+grant execute on function public.post_is_visible(uuid) to anon, authenticated;
+
+drop policy if exists "post revisions are readable" on public.post_revisions;
+create policy "post revisions are readable" on public.post_revisions
+  for select using (public.post_is_visible(post_id));
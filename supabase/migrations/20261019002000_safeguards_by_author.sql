@@ -0,0 +1,113 @@
+-- The posting and commenting limits counted rows by user_id, which is only
+-- what the client says it is. They now count by author_hash, a SHA-256 of
+-- the identity secret that is worked out here from the author_key sent with
+-- the row, so rows without an author key are refused. Match threads are
+-- opened by create_match_threads rather than a client; they are stored under
+-- the author_hash 'matchbot' and skip the rate and duplicate checks.
+
+alter table public.posts
+  add column if not exists author_hash text not null default '';
+alter table public.comments
+  add column if not exists author_hash text not null default '';
+
+create index if not exists posts_author_hash_idx
+  on public.posts (author_hash, created_at desc);
+create index if not exists comments_author_hash_idx
+  on public.comments (author_hash, created_at desc);
+
+-- The safeguard triggers run before the hash_author_key triggers (triggers
+-- fire in name order), so author_key is still the plain secret here.
+create or replace function public.apply_post_safeguards()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rules content_rules;
+begin
+  select * into v_rules from content_rules;
+
+  new.title := filter_words(new.title);
+  new.content := filter_words(new.content);
+
+  if count_links(new.title) + count_links(new.content) > v_rules.max_links then
+    raise exception 'Posts can contain at most % links', v_rules.max_links;
+  end if;
+
+  if tg_op = 'INSERT' and new.match_thread is not null then
+    new.author_hash := 'matchbot';
+  elsif tg_op = 'INSERT' then
+    if coalesce(new.author_key, '') = '' then
+      raise exception 'An author key is required';
+    end if;
+    new.author_hash := voter_hash(new.author_key);
+
+    if (
+      select count(*) from posts
+       where author_hash = new.author_hash
+         and created_at > now() - interval '1 minute'
+    ) >= v_rules.posts_per_minute then
+      raise exception 'You are posting too quickly. Please wait a minute and try again.';
+    end if;
+
+    if exists (
+      select 1 from posts
+       where author_hash = new.author_hash
+         and title = new.title
+         and content = new.content
+         and created_at > now() - v_rules.duplicate_window
+    ) then
+      raise exception 'You have already posted this';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.apply_comment_safeguards()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rules content_rules;
+begin
+  select * into v_rules from content_rules;
+
+  new.content := filter_words(new.content);
+
+  if count_links(new.content) > v_rules.max_links then
+    raise exception 'Comments can contain at most % links', v_rules.max_links;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if coalesce(new.author_key, '') = '' then
+      raise exception 'An author key is required';
+    end if;
+    new.author_hash := voter_hash(new.author_key);
+
+    if (
+      select count(*) from comments
+       where author_hash = new.author_hash
+         and created_at > now() - interval '1 minute'
+    ) >= v_rules.comments_per_minute then
+      raise exception 'You are commenting too quickly. Please wait a minute and try again.';
+    end if;
+
+    if exists (
+      select 1 from comments
+       where author_hash = new.author_hash
+         and post_id = new.post_id
+         and content = new.content
+         and created_at > now() - v_rules.duplicate_window
+    ) then
+      raise exception 'You have already posted this comment';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,80 @@
+-- cast_vote is security definer, so row level security did not keep votes
+-- off hidden or deleted posts and comments. Voting on them changed scores
+-- nobody could see and could announce milestones for them; now they are
+-- not found, like every other read.
+
+-- p_value is 1 (up), -1 (down) or 0 (clear). Returns the new score.
+create or replace function public.cast_vote(
+  p_target_type text,
+  p_target_id uuid,
+  p_voter_key text,
+  p_value integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_hash text;
+  v_old smallint;
+  v_score integer;
+begin
+  if coalesce(p_voter_key, '') = '' then
+    raise exception 'Voter key is required';
+  end if;
+  if p_value not in (-1, 0, 1) then
+    raise exception 'Invalid vote';
+  end if;
+  v_hash := voter_hash(p_voter_key);
+
+  if p_target_type = 'post' then
+    perform 1 from posts
+     where id = p_target_id and hidden_at is null and deleted_at is null
+       for update;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    select value into v_old from votes
+     where post_id = p_target_id and voter_hash = v_hash;
+    delete from votes where post_id = p_target_id and voter_hash = v_hash;
+    if p_value <> 0 then
+      insert into votes (post_id, voter_hash, value)
+      values (p_target_id, v_hash, p_value);
+    end if;
+
+    update posts set upvotes = upvotes + p_value - coalesce(v_old, 0)
+     where id = p_target_id
+    returning upvotes into v_score;
+  elsif p_target_type = 'comment' then
+    perform 1 from comments c
+      join posts p on p.id = c.post_id
+     where c.id = p_target_id
+       and c.deleted_at is null
+       and c.hidden_at is null
+       and p.hidden_at is null
+       and p.deleted_at is null
+       for update of c;
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Not found';
+    end if;
+
+    select value into v_old from votes
+     where comment_id = p_target_id and voter_hash = v_hash;
+    delete from votes where comment_id = p_target_id and voter_hash = v_hash;
+    if p_value <> 0 then
+      insert into votes (comment_id, voter_hash, value)
+      values (p_target_id, v_hash, p_value);
+    end if;
+
+    update comments set upvotes = upvotes + p_value - coalesce(v_old, 0)
+     where id = p_target_id
+    returning upvotes into v_score;
+  else
+    raise exception 'Invalid vote target';
+  end if;
+
+  return v_score;
+end;
+$$;
@@ -1,8 +1,25 @@
+// Brand and gray colors come from CSS variables (see src/index.css) so the
+// color scheme and dark mode can be switched at runtime.
+const fromVariables = (name) =>
+  Object.fromEntries(
+    [50, 100, 200, 300, 400, 500, 600, 700, 800, 900].map((shade) => [
+      shade,
+      `rgb(var(--${name}-${shade}) / <alpha-value>)`,
+    ])
+  );
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ["./index.html", "./src/**/*.{js,ts,jsx,tsx}"],
+  darkMode: "class",
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        brand: fromVariables("brand"),
+        gray: fromVariables("gray"),
+        surface: "rgb(var(--surface) / <alpha-value>)",
+      },
+    },
   },
   plugins: [],
 };